@@ -0,0 +1,42 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import ArtifactDetail from "@/components/ArtifactDetail";
+import SiteHeader from "@/components/SiteHeader";
+import { SEED, getArtifactBySlug } from "@/lib/artifacts";
+import { platformLabel } from "@/lib/platforms";
+
+type Props = { params: { slug: string } };
+
+// Static export: every artifact page is generated at build time, unknown slugs 404.
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return SEED.map((a) => ({ slug: a.slug }));
+}
+
+export function generateMetadata({ params }: Props): Metadata {
+  const artifact = getArtifactBySlug(params.slug);
+  if (!artifact) return {};
+  const title = `${artifact.name} (${platformLabel(artifact.platform)}) – DFIR Artifact Explorer`;
+  return {
+    title,
+    description: artifact.summary,
+    openGraph: { title, description: artifact.summary, type: "article" },
+  };
+}
+
+export default function ArtifactPage({ params }: Props) {
+  const artifact = getArtifactBySlug(params.slug);
+  if (!artifact) notFound();
+  return (
+    <div className="min-h-screen">
+      <SiteHeader actions={<Link href={`/?artifact=${artifact.slug}`} className="rounded-xl border px-3 py-2 hover:bg-gray-100">Open in explorer</Link>} />
+      <main className="mx-auto max-w-5xl px-4 py-6">
+        <article className="bg-white rounded-2xl border shadow-sm p-6">
+          <ArtifactDetail artifact={artifact} />
+        </article>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+import type { Metadata } from "next";
+import { Suspense } from "react";
+import AttackMatrixView from "@/components/AttackMatrixView";
+
+export const metadata: Metadata = {
+  title: "ATT&CK coverage – DFIR Artifact Explorer",
+  description: "MITRE ATT&CK matrix showing which techniques the catalogued forensic artifacts give evidence for, and where the gaps are.",
+};
+
+export default function AttackPage() {
+  return (
+    <Suspense>
+      <AttackMatrixView />
+    </Suspense>
+  );
+}
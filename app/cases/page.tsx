@@ -0,0 +1,11 @@
+import type { Metadata } from "next";
+import CaseWorkspace from "@/components/CaseWorkspace";
+
+export const metadata: Metadata = {
+  title: "Cases – DFIR Artifact Explorer",
+  description: "Track collection steps and checks per investigation, stored locally in the browser.",
+};
+
+export default function CasesPage() {
+  return <CaseWorkspace />;
+}
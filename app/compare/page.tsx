@@ -0,0 +1,16 @@
+import type { Metadata } from "next";
+import { Suspense } from "react";
+import CompareView from "@/components/CompareView";
+
+export const metadata: Metadata = {
+  title: "Compare artifacts – DFIR Artifact Explorer",
+  description: "Side-by-side comparison of forensic artifacts: locations, timestamps, parsers, validation and pitfalls.",
+};
+
+export default function ComparePage() {
+  return (
+    <Suspense>
+      <CompareView />
+    </Suspense>
+  );
+}
@@ -0,0 +1,16 @@
+import type { Metadata } from "next";
+import { Suspense } from "react";
+import CrosswalkView from "@/components/CrosswalkView";
+
+export const metadata: Metadata = {
+  title: "Crosswalk – DFIR Artifact Explorer",
+  description: "Which artifact, tool and output column provides each field of a normalized timeline, with column mappings for merging parser CSVs.",
+};
+
+export default function CrosswalkPage() {
+  return (
+    <Suspense>
+      <CrosswalkView />
+    </Suspense>
+  );
+}
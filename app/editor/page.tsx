@@ -0,0 +1,16 @@
+import type { Metadata } from "next";
+import { Suspense } from "react";
+import ArtifactEditor from "@/components/ArtifactEditor";
+
+export const metadata: Metadata = {
+  title: "Artifact editor – DFIR Artifact Explorer",
+  description: "Create or edit an artifact entry with structured forms, live validation and preview, and download it as JSON or a JSON Patch for data/seed.json.",
+};
+
+export default function EditorPage() {
+  return (
+    <Suspense>
+      <ArtifactEditor />
+    </Suspense>
+  );
+}
@@ -0,0 +1,16 @@
+import type { Metadata } from "next";
+import { Suspense } from "react";
+import EventIdView from "@/components/EventIdView";
+
+export const metadata: Metadata = {
+  title: "Event IDs – DFIR Artifact Explorer",
+  description: "Reverse lookup from Windows event IDs to the forensic artifacts that document them, with batch coverage and gap checks.",
+};
+
+export default function EventIdsPage() {
+  return (
+    <Suspense>
+      <EventIdView />
+    </Suspense>
+  );
+}
@@ -0,0 +1,16 @@
+import type { Metadata } from "next";
+import { Suspense } from "react";
+import GraphView from "@/components/GraphView";
+
+export const metadata: Metadata = {
+  title: "Artifact relations – DFIR Artifact Explorer",
+  description: "Interactive graph of how forensic artifacts corroborate, supersede and share sources with each other across platforms.",
+};
+
+export default function GraphPage() {
+  return (
+    <Suspense>
+      <GraphView />
+    </Suspense>
+  );
+}
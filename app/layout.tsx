@@ -1,15 +1,23 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
+import ServiceWorker from "@/components/ServiceWorker";
 import "./globals.css";
 
 export const metadata: Metadata = {
   title: "DFIR Artifact Explorer",
   description: "Searchable encyclopedia of forensic artifacts across Windows, Linux, and Cloud.",
+  // URLs inside the manifest are relative to it, so only the link needs the base path.
+  manifest: `${process.env.NEXT_PUBLIC_BASE_PATH ?? ""}/manifest.webmanifest`,
 };
 
+export const viewport: Viewport = { themeColor: "#111827" };
+
 export default function RootLayout({ children }: { children: React.ReactNode }) {
   return (
     <html lang="en">
-      <body className="antialiased bg-gray-50 text-gray-900">{children}</body>
+      <body className="antialiased bg-gray-50 text-gray-900">
+        {children}
+        <ServiceWorker />
+      </body>
     </html>
   );
 }
\ No newline at end of file
@@ -0,0 +1,11 @@
+import type { Metadata } from "next";
+import LocalArtifacts from "@/components/LocalArtifacts";
+
+export const metadata: Metadata = {
+  title: "Local artifacts – DFIR Artifact Explorer",
+  description: "Import private artifacts into this browser; they merge with the published catalogue and never leave the machine.",
+};
+
+export default function LocalPage() {
+  return <LocalArtifacts />;
+}
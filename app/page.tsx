@@ -1,5 +1,16 @@
+import { Suspense } from "react";
 import ArtifactExplorer from "@/components/ArtifactExplorer";
+import { SEED } from "@/lib/artifacts";
+import { buildSearchIndex } from "@/lib/search";
 
 export default function Page() {
-  return <ArtifactExplorer />;
-}
\ No newline at end of file
+  // Server component: with `output: 'export'` this runs at build time, so the
+  // search index ships prebuilt instead of being computed in every browser.
+  const index = buildSearchIndex(SEED);
+  // The explorer reads its filters from the query string, which is only known in the browser.
+  return (
+    <Suspense>
+      <ArtifactExplorer index={index} />
+    </Suspense>
+  );
+}
@@ -0,0 +1,16 @@
+import type { Metadata } from "next";
+import { Suspense } from "react";
+import PlaybookView from "@/components/PlaybookView";
+
+export const metadata: Metadata = {
+  title: "Collection playbook – DFIR Artifact Explorer",
+  description: "Export selected artifacts as a Markdown, HTML or print-ready collection playbook.",
+};
+
+export default function PlaybookPage() {
+  return (
+    <Suspense>
+      <PlaybookView />
+    </Suspense>
+  );
+}
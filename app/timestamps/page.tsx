@@ -0,0 +1,16 @@
+import type { Metadata } from "next";
+import { Suspense } from "react";
+import TimestampWorkbench from "@/components/TimestampWorkbench";
+
+export const metadata: Metadata = {
+  title: "Timestamp decoder – DFIR Artifact Explorer",
+  description: "Decode FILETIME, Unix, HFS+, WebKit, OLE, SYSTEMTIME and ISO timestamps offline, with the time zone and precision caveats of the artifact they came from.",
+};
+
+export default function TimestampsPage() {
+  return (
+    <Suspense>
+      <TimestampWorkbench />
+    </Suspense>
+  );
+}
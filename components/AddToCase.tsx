@@ -0,0 +1,31 @@
+"use client";
+import Link from "next/link";
+import React, { useEffect, useState } from "react";
+import type { Artifact } from "@/lib/schema";
+import { useCases } from "@/lib/useCases";
+
+/** Small control in the detail header: add this artifact to a case (defaults to the active one). */
+export default function AddToCase({ artifact }: { artifact: Artifact }) {
+  const { cases, activeId, setActiveId, addArtifact } = useCases();
+  const [caseId, setCaseId] = useState<string>("");
+  useEffect(() => { setCaseId(activeId ?? cases[0]?.id ?? ""); }, [activeId, cases]);
+
+  if (cases.length === 0) {
+    return <Link href="/cases/" className="rounded-lg border px-2 py-1 hover:bg-gray-100 print:hidden">New case…</Link>;
+  }
+  const target = cases.find((c) => c.id === caseId);
+  const added = target?.artifacts.includes(artifact.id) ?? false;
+  return (
+    <div className="flex items-center gap-1 print:hidden">
+      <label className="sr-only" htmlFor={`case-for-${artifact.id}`}>Case</label>
+      <select id={`case-for-${artifact.id}`} className="rounded-lg border px-2 py-1 bg-white text-sm max-w-[10rem]" value={caseId} onChange={(e) => setCaseId(e.target.value)}>
+        {cases.map((c) => (<option key={c.id} value={c.id}>{c.name}</option>))}
+      </select>
+      {added ? (
+        <Link href="/cases/" onClick={() => setActiveId(caseId)} className="rounded-lg border px-2 py-1 hover:bg-gray-100">In case ✓</Link>
+      ) : (
+        <button onClick={() => { addArtifact(caseId, artifact.id); setActiveId(caseId); }} className="rounded-lg border px-2 py-1 hover:bg-gray-100">Add to case</button>
+      )}
+    </div>
+  );
+}
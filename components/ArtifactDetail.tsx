@@ -0,0 +1,322 @@
+"use client";
+import Link from "next/link";
+import React from "react";
+import AddToCase from "@/components/AddToCase";
+import CommandPanel from "@/components/CommandPanel";
+import LocalBadge from "@/components/LocalBadge";
+import PlatformBadge from "@/components/PlatformBadge";
+import RenderedCommand from "@/components/RenderedCommand";
+import { artifactHref, groupLocationsByScope } from "@/lib/artifacts";
+import { attackMatrixHref, attackUrl, techniqueLabel } from "@/lib/attack";
+import { columnMapping, columnMappingFile, crosswalkHref, hasColumnMapping, outputField } from "@/lib/crosswalk";
+import { downloadText, fileSafe } from "@/lib/download";
+import { editorHref } from "@/lib/editor";
+import { eventIdsHref } from "@/lib/eventIds";
+import { platformLabel } from "@/lib/platforms";
+import { graphHref, relatedArtifacts } from "@/lib/relations";
+import type { Artifact } from "@/lib/schema";
+import { ENCODING_LABEL, PRECISION_LABEL, TZ_LABEL, timestampHref } from "@/lib/timestamps";
+import { useCatalogue } from "@/lib/useCatalogue";
+import { useCommandVariables } from "@/lib/useCommandVariables";
+
+async function copyLines(lines: string[], title?: string) {
+  const text = (title ? `# ${title}\n` : "") + lines.map(l => `- ${l}`).join("\n");
+  try {
+    await navigator.clipboard.writeText(text.trim());
+    alert("Copied to clipboard.");
+  } catch {
+    alert("Could not copy to clipboard.");
+  }
+}
+
+type Props = {
+  artifact: Artifact;
+  onClose?: () => void;
+  onNavigate?: (slug: string) => void;   // open a related artifact in place instead of following its permalink
+  preview?: boolean;                      // editor preview of an unsaved draft: no case, graph or edit actions
+};
+
+/** Full detail view of one artifact, shared by the explorer overlay and the static /artifacts/[slug] pages. */
+export default function ArtifactDetail({ artifact: given, onClose, onNavigate, preview }: Props) {
+  const { values, setValue, reset } = useCommandVariables();
+  const { artifacts, localKind } = useCatalogue();
+  // Static pages are rendered from SEED; a local override of this id replaces it once storage is read.
+  const artifact = preview ? given : artifacts.find((a) => a.id === given.id) ?? given;
+  // A draft's own relations are not in the catalogue yet; put it in place of the entry it edits.
+  const related = relatedArtifacts(artifact, preview ? [...artifacts.filter((a) => a.id !== artifact.id), artifact] : artifacts);
+  return (
+    <>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-2 mb-2">
+            <PlatformBadge platform={artifact.platform} />
+            {!preview && <LocalBadge kind={localKind(artifact.id)} />}
+            {artifact.tactic_tags?.map((t) => (
+              <span key={t} className="text-xs px-2 py-0.5 rounded-full bg-gray-50 border text-gray-600">{t}</span>
+            ))}
+          </div>
+          <h2 className="text-xl font-semibold">{artifact.name}</h2>
+          {artifact.artifact_class && (<p className="text-base text-gray-500">Class: {artifact.artifact_class}</p>)}
+        </div>
+        <div className="flex flex-wrap justify-end gap-2">
+          {!preview && (
+            <>
+              <AddToCase artifact={artifact} />
+              {related.length > 0 && <Link href={graphHref(artifact.slug)} className="rounded-lg border px-2 py-1 hover:bg-gray-100">Graph</Link>}
+              <Link href={editorHref(artifact.slug)} className="rounded-lg border px-2 py-1 hover:bg-gray-100">Edit</Link>
+            </>
+          )}
+          {onClose && (
+            <>
+              <Link href={artifactHref(artifact.slug)} className="rounded-lg border px-2 py-1 hover:bg-gray-100">Permalink</Link>
+              <button onClick={onClose} className="rounded-lg border px-2 py-1 hover:bg-gray-100" aria-label="Close details">Close</button>
+            </>
+          )}
+        </div>
+      </div>
+      {artifact.summary && (<p className="mt-3 text-base text-gray-700">{artifact.summary}</p>)}
+      {artifact.description && (<p className="mt-2 text-base text-gray-600">{artifact.description}</p>)}
+      {artifact.attack?.techniques && artifact.attack.techniques.length > 0 && (
+        <section className="mt-6">
+          <h3 className="text-base font-semibold text-gray-700">MITRE ATT&amp;CK</h3>
+          <ul className="mt-2 flex flex-wrap gap-2">
+            {artifact.attack.techniques.map((id) => (
+              <li key={id} className="flex items-center rounded-lg border text-sm">
+                <Link href={attackMatrixHref(id)} className="px-2 py-1 hover:bg-gray-100 rounded-l-lg" title="Show in the ATT&CK coverage matrix">
+                  <span className="font-mono text-xs text-gray-500">{id}</span> {techniqueLabel(id)}
+                </Link>
+                <a href={attackUrl(id)} target="_blank" rel="noreferrer" className="border-l px-2 py-1 text-xs text-gray-500 hover:bg-gray-100 rounded-r-lg" aria-label={`${id} on attack.mitre.org`}>↗</a>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+      {artifact.locations && artifact.locations.length > 0 && (
+        <section className="mt-6">
+          <h3 className="text-base font-semibold text-gray-700">Locations</h3>
+          <div className="mt-2 space-y-3">
+            {groupLocationsByScope(artifact.locations).map(([tool, locations]) => (
+              <details key={tool} className="border rounded-xl p-3 bg-white" open>
+                <summary className="cursor-pointer text-base font-medium">{tool}</summary>
+                <ul className="mt-2 space-y-1">
+                  {locations.map((l, idx) => (
+                    <li key={idx} className="text-xs font-mono bg-gray-50 border rounded px-2 py-1 break-all">
+                      {l.path}
+                      {(l.notes || l.scope) && (
+                        <div className="mt-0.5 text-[11px] text-gray-600">
+                          {l.notes ? l.notes : ""}
+                        </div>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {artifact.timestamps && artifact.timestamps.length > 0 && (
+        <section className="mt-6">
+          <h3 className="text-base font-semibold text-gray-700">Timestamps</h3>
+          <div className="mt-2 border rounded-xl divide-y">
+            {artifact.timestamps.map((t, idx) => (
+              <div key={idx} className="p-3 text-base">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="font-medium">{t.name}</div>
+                  {!preview && <Link href={timestampHref({ artifact: artifact.slug, field: idx })} className="rounded-lg border px-2 py-0.5 text-xs hover:bg-gray-100" title="Decode a raw value of this field">Decode</Link>}
+                </div>
+                <div className="text-xs text-gray-600">{t.source}</div>
+                <div className="text-xs text-gray-500">
+                  {[t.encoding && ENCODING_LABEL[t.encoding], t.tz_behavior && `TZ: ${TZ_LABEL[t.tz_behavior]}`, t.precision && `Precision: ${PRECISION_LABEL[t.precision]}`].filter(Boolean).join(" · ")}
+                </div>
+                {t.notes && <div className="text-xs text-gray-500 mt-1">{t.notes}</div>}
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+      {artifact.parsers && artifact.parsers.length > 0 && (
+        <section className="mt-6">
+          <h3 className="text-base font-semibold text-gray-700">Parsers & Commands</h3>
+          <div className="mt-2 space-y-3">
+            <CommandPanel artifacts={[artifact]} values={values} onChange={setValue} onReset={reset} title={artifact.name} />
+            {artifact.parsers.map((p, idx) => (
+              <div key={idx} className="border rounded-xl p-3">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="text-base font-medium">{p.tool_name}</div>
+                  {!preview && hasColumnMapping(p) && (
+                    <button onClick={() => downloadText(`${fileSafe(`${artifact.slug} ${p.tool_name}`)}.mapping.json`, columnMappingFile(columnMapping(artifact, p)), "application/json")} className="rounded-lg border px-2 py-0.5 text-xs hover:bg-gray-100" title="Column-to-field mapping for merging this tool's CSV into a super-timeline (npm run merge-timeline)">
+                      Column mapping
+                    </button>
+                  )}
+                </div>
+                {p.command_example && (<div className="mt-2"><RenderedCommand parser={p} values={values} /></div>)}
+                {p.output_fields && (
+                  <details className="mt-2">
+                    <summary className="cursor-pointer text-xs text-gray-600">Output columns ({Object.keys(p.output_fields).length})</summary>
+                    <ul className="mt-1 text-xs text-gray-600 list-disc list-inside">
+                      {Object.entries(p.output_fields).map(([k, v]) => {
+                        const { field, description } = outputField(v);
+                        return (
+                          <li key={k}>
+                            <span className="font-mono">{k}</span>
+                            {field && <> → <Link href={crosswalkHref(field)} className="font-mono underline decoration-dotted hover:text-gray-900" title="Every column that provides this field">{field}</Link></>}
+                            {description && `: ${description}`}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </details>
+                )}
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+      {artifact.validation && artifact.validation.length > 0 && (
+        <section className="mt-6">
+          <h3 className="text-base font-semibold text-gray-700">Validation / Corroboration</h3>
+          <ul className="mt-2 list-disc list-inside text-base text-gray-700">
+            {artifact.validation.map((v, idx) => (<li key={idx}>{v}</li>))}
+          </ul>
+        </section>
+      )}
+      {related.length > 0 && (
+        <section className="mt-6">
+          <h3 className="text-base font-semibold text-gray-700">Related Artifacts</h3>
+          <dl className="mt-2 space-y-2">
+            {related.map(([label, items]) => (
+              <div key={label}>
+                <dt className="text-xs font-semibold text-gray-500">{label}</dt>
+                <dd className="mt-1 flex flex-wrap gap-2">
+                  {items.map((r) => {
+                    const chip = (
+                      <>
+                        <span className="font-medium">{r.artifact.name}</span>
+                        {r.artifact.platform !== artifact.platform && <span className="ml-1 text-xs text-gray-500">({platformLabel(r.artifact.platform)})</span>}
+                      </>
+                    );
+                    const className = "rounded-lg border px-2 py-1 text-sm hover:bg-gray-100";
+                    return onNavigate
+                      ? <button key={r.artifact.id} onClick={() => onNavigate(r.artifact.slug)} className={className} title={r.note}>{chip}</button>
+                      : <Link key={r.artifact.id} href={artifactHref(r.artifact.slug)} className={className} title={r.note}>{chip}</Link>;
+                  })}
+                </dd>
+              </div>
+            ))}
+          </dl>
+        </section>
+      )}
+      {artifact.known_pitfalls && artifact.known_pitfalls.length > 0 && (
+        <section className="mt-6">
+          <h3 className="text-base font-semibold text-gray-700">Known Pitfalls</h3>
+          <ul className="mt-2 list-disc list-inside text-base text-gray-700">
+            {artifact.known_pitfalls.map((v, idx) => (<li key={idx}>{v}</li>))}
+          </ul>
+        </section>
+      )}
+      {artifact.references && artifact.references.length > 0 && (
+        <section className="mt-6">
+          <h3 className="text-base font-semibold text-gray-700">References</h3>
+          <ul className="mt-2 list-disc list-inside text-base text-gray-700">
+            {artifact.references.map((r, idx) => (
+              <li key={idx}><a className="underline" href={r.url} target="_blank" rel="noreferrer">{r.title}</a></li>
+            ))}
+          </ul>
+        </section>
+      )}
+      {artifact.gui_log_collection_steps && artifact.gui_log_collection_steps.length > 0 && (
+        <section className="mt-6">
+          <div className="flex items-center justify-between">
+            <h3 className="text-base font-semibold text-gray-700">M365 GUI Log Collection</h3>
+            <button
+              className="text-xs px-2 py-1 border rounded hover:bg-gray-100"
+              onClick={() => copyLines(artifact.gui_log_collection_steps!, "M365 GUI Log Collection")}
+            >
+              Copy all
+            </button>
+          </div>
+          <ol className="mt-2 list-decimal list-inside text-base text-gray-700 space-y-1">
+            {artifact.gui_log_collection_steps.map((s, i) => <li key={i}>{s}</li>)}
+          </ol>
+        </section>
+      )}
+
+      {/* Due Diligence Checks */}
+      {artifact.due_diligence_checks && artifact.due_diligence_checks.length > 0 && (
+        <section className="mt-6">
+          <div className="flex items-center justify-between">
+            <h3 className="text-base font-semibold text-gray-700">Due Diligence Checks</h3>
+            <button
+              className="text-xs px-2 py-1 border rounded hover:bg-gray-100"
+              onClick={() => copyLines(artifact.due_diligence_checks!, "Due Diligence Checks")}
+            >
+              Copy all
+            </button>
+          </div>
+          <ol className="mt-2 list-decimal list-inside text-base text-gray-700 space-y-1">
+            {artifact.due_diligence_checks.map((s, i) => <li key={i}>{s}</li>)}
+          </ol>
+        </section>
+      )}
+
+      {/* Additional Checks */}
+      {artifact.additional_checks && artifact.additional_checks.length > 0 && (
+        <section className="mt-6">
+          <div className="flex items-center justify-between">
+            <h3 className="text-base font-semibold text-gray-700">Additional Checks</h3>
+            <button
+              className="text-xs px-2 py-1 border rounded hover:bg-gray-100"
+              onClick={() => copyLines(artifact.additional_checks!, "Additional Checks")}
+            >
+              Copy all
+            </button>
+          </div>
+          <ol className="mt-2 list-decimal list-inside text-base text-gray-700 space-y-1">
+            {artifact.additional_checks.map((s, i) => <li key={i}>{s}</li>)}
+          </ol>
+        </section>
+      )}
+      {!artifact.gui_log_collection_steps && artifact.collection_steps && artifact.collection_steps.length > 0 && (
+        <section className="mt-6">
+          <h3 className="text-base font-semibold text-gray-700">Collection Steps</h3>
+          <div className="mt-2 space-y-4">
+            {artifact.collection_steps.map((grp, idx) => (
+              <details key={idx} className="border rounded-xl p-3 bg-white" open={idx === 0}>
+                <summary className="cursor-pointer text-base font-medium">{grp.category}</summary>
+                <ol className="mt-2 list-decimal list-inside text-base text-gray-700 space-y-1">
+                  {grp.steps.map((s, i) => <li key={i}>{s}</li>)}
+                </ol>
+              </details>
+            ))}
+          </div>
+        </section>
+      )}
+      {artifact.event_ids && artifact.event_ids.length > 0 && (
+        <section className="mt-6">
+          <h3 className="text-base font-semibold text-gray-700">Event IDs</h3>
+          <div className="mt-2 space-y-3">
+            {artifact.event_ids.map((g, idx) => (
+              <div key={idx} className="border rounded-xl p-3">
+                <div className="text-base">
+                  <span className="font-medium">Source:</span> {g.source}
+                </div>
+                <div className="mt-1 text-xs text-gray-600">
+                  <span className="font-medium">IDs:</span>{" "}
+                  {g.ids.map((id, i) => (
+                    <React.Fragment key={id}>
+                      {i > 0 && ", "}
+                      <Link href={eventIdsHref(id, g.source)} className="font-mono underline decoration-dotted hover:text-gray-900" title={g.titles?.[id] ?? "Every artifact that documents this event ID"}>{id}</Link>
+                    </React.Fragment>
+                  ))}
+                </div>
+                <div className="mt-1 text-base text-gray-700">{g.description}</div>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+    </>
+  );
+}
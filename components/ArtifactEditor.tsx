@@ -0,0 +1,368 @@
+"use client";
+import Link from "next/link";
+import React, { useMemo, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import ArtifactDetail from "@/components/ArtifactDetail";
+import { Chips, Field, INPUT, LinesInput, ListInput, Options, OutputFieldsInput, PairsInput, Rows } from "@/components/EditorFields";
+import SiteHeader from "@/components/SiteHeader";
+import { ATTACK, techniqueLabel } from "@/lib/attack";
+import { SEED, artifactHref, getArtifactBySlug } from "@/lib/artifacts";
+import { TIMELINE_FIELDS } from "@/lib/crosswalk";
+import { downloadText } from "@/lib/download";
+import {
+  EDITOR_OPTIONS, changedFields, cleanArtifact, editorHref, emptyDraft, issuesAt, seedPatch, slugify, validateDraft,
+} from "@/lib/editor";
+import { checkOverlay, upsertLocal } from "@/lib/overlay";
+import { seedEntry } from "@/lib/seedFormat";
+import { PLATFORM_DEFS } from "@/lib/platforms";
+import { RELATION_LABEL, RELATION_TYPES } from "@/lib/relations";
+import type { Artifact, DataIssue, Location, ParserRef, Relation, RelationType, TimestampEncoding, TimestampField, TimestampPrecision, TimezoneBehavior } from "@/lib/schema";
+import { ENCODINGS, ENCODING_LABEL, PRECISION_LABEL, TZ_LABEL } from "@/lib/timestamps";
+import { useCatalogue } from "@/lib/useCatalogue";
+
+const SELECT = "w-full rounded-xl border px-3 py-1.5 bg-white";
+const TZ_BEHAVIORS = Object.keys(TZ_LABEL) as TimezoneBehavior[];
+const PRECISIONS = Object.keys(PRECISION_LABEL) as TimestampPrecision[];
+const STRING_LISTS: Array<{ key: "collection_methods" | "validation" | "known_pitfalls" | "gui_log_collection_steps" | "due_diligence_checks" | "additional_checks"; label: string; hint?: string }> = [
+  { key: "collection_methods", label: "Collection methods", hint: `In use: ${EDITOR_OPTIONS.collectionMethods.join(", ")}` },
+  { key: "validation", label: "Validation / corroboration" },
+  { key: "known_pitfalls", label: "Known pitfalls" },
+  { key: "gui_log_collection_steps", label: "GUI log collection steps" },
+  { key: "due_diligence_checks", label: "Due diligence checks" },
+  { key: "additional_checks", label: "Additional checks" },
+];
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="bg-white rounded-2xl border p-4 space-y-3">
+      <h2 className="text-base font-semibold uppercase tracking-wider text-gray-500">{title}</h2>
+      {children}
+    </section>
+  );
+}
+
+type EditorFormProps = {
+  base?: Artifact;
+  catalogue: ReturnType<typeof useCatalogue>;
+  onSaved: (slug: string) => void;
+};
+
+function EditorForm({ base, catalogue, onSaved }: EditorFormProps) {
+  const { artifacts, local, setLocal } = catalogue;
+  const [original] = useState(() => (base ? { index: artifacts.indexOf(base), artifact: base } : undefined));
+  // The patch is against data/seed.json, so it compares with the published entry, if there is one.
+  const [published] = useState(() => {
+    const index = base ? SEED.findIndex((a) => a.id === base.id) : -1;
+    return index === -1 ? undefined : { index, artifact: SEED[index] };
+  });
+  const [draft, setDraft] = useState<Artifact>(() => (base ? structuredClone(base) : emptyDraft()));
+  // New artifacts get slug and id from platform and name until either is typed by hand.
+  const [derived, setDerived] = useState(!base);
+  const [technique, setTechnique] = useState("");
+
+  function set<K extends keyof Artifact>(key: K, value: Artifact[K]) {
+    setDraft((d) => {
+      const next = { ...d, [key]: value };
+      if (derived && (key === "name" || key === "platform")) next.slug = next.id = slugify(`${next.platform} ${next.name}`);
+      return next;
+    });
+  }
+  function setIdentity(key: "slug" | "id", value: string) { setDerived(false); setDraft((d) => ({ ...d, [key]: value })); }
+
+  const artifact = useMemo(() => cleanArtifact(draft), [draft]);
+  const report = useMemo(() => validateDraft(artifact, original?.index, artifacts), [artifact, original?.index, artifacts]);
+  const patch = useMemo(() => seedPatch(artifact, published), [artifact, published]);
+  const [saveErrors, setSaveErrors] = useState<DataIssue[]>([]);
+  const changed = changedFields(patch);
+  const errorsAt = (field: string) => issuesAt(report.errors, field);
+  const techniques = draft.attack?.techniques ?? [];
+
+  function addTechnique(id: string) {
+    const t = id.trim().toUpperCase();
+    if (!t || techniques.includes(t)) return;
+    set("attack", { ...draft.attack, techniques: [...techniques, t] });
+    setTechnique("");
+  }
+
+  const file = artifact.slug || "artifact";
+  const valid = report.errors.length === 0 && report.elsewhere.length === 0;
+
+  // Renaming the id of a local entry moves it; a published entry stays and the copy is added.
+  function saveLocal() {
+    const kept = base && base.id !== artifact.id ? local.filter((a) => a.id !== base.id) : local;
+    const check = checkOverlay(upsertLocal(kept, [artifact]));
+    setSaveErrors(check.errors);
+    if (check.errors.length > 0) return;
+    setLocal(check.local);
+    onSaved(artifact.slug);
+  }
+
+  return (
+    <main className="mx-auto max-w-7xl px-4 py-6 grid grid-cols-1 md:grid-cols-12 gap-6">
+      <form className="md:col-span-7 space-y-4" onSubmit={(e) => e.preventDefault()}>
+        <Section title="Basics">
+          <Field label="Name" issues={errorsAt("name")}>{(id) => <input id={id} className={INPUT} value={draft.name} onChange={(e) => set("name", e.target.value)} />}</Field>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <Field label="Platform" issues={errorsAt("platform")}>
+              {(id) => (
+                <select id={id} className={SELECT} value={draft.platform} onChange={(e) => set("platform", e.target.value)}>
+                  {PLATFORM_DEFS.map((p) => (<option key={p.id} value={p.id}>{p.label}</option>))}
+                </select>
+              )}
+            </Field>
+            <Field label="Class">
+              {(id) => (<><input id={id} list="editor-classes" className={INPUT} value={draft.artifact_class ?? ""} onChange={(e) => set("artifact_class", e.target.value)} /><Options id="editor-classes" values={EDITOR_OPTIONS.classes} /></>)}
+            </Field>
+            <Field label="Slug" issues={errorsAt("slug")} hint={derived ? "Follows the platform and name until edited." : undefined}>
+              {(id) => <input id={id} className={`${INPUT} font-mono text-sm`} value={draft.slug} onChange={(e) => setIdentity("slug", e.target.value)} />}
+            </Field>
+            <Field label="Id" issues={errorsAt("id")} hint={base ? "Relations in other artifacts point at this id." : undefined}>
+              {(id) => <input id={id} className={`${INPUT} font-mono text-sm`} value={draft.id} onChange={(e) => setIdentity("id", e.target.value)} />}
+            </Field>
+          </div>
+          <Field label="Summary" issues={errorsAt("summary")}>{(id) => <textarea id={id} rows={2} className={INPUT} value={draft.summary} onChange={(e) => set("summary", e.target.value)} />}</Field>
+          <Field label="Description">{(id) => <textarea id={id} rows={3} className={INPUT} value={draft.description ?? ""} onChange={(e) => set("description", e.target.value)} />}</Field>
+        </Section>
+
+        <Section title="Tactics & ATT&CK">
+          <div className="space-y-1">
+            <p className="text-sm text-gray-600">Tactic tags</p>
+            <Chips options={EDITOR_OPTIONS.tactics} value={draft.tactic_tags} onChange={(v) => set("tactic_tags", v)} />
+          </div>
+          <div className="space-y-1">
+            <p className="text-sm text-gray-600">ATT&amp;CK tactics</p>
+            <Chips options={ATTACK.tactics.map((t) => t.id)} value={draft.attack?.tactics} onChange={(v) => set("attack", { ...draft.attack, tactics: v })} label={(id) => ATTACK.tactics.find((t) => t.id === id)?.name ?? id} />
+          </div>
+          <Field label="ATT&CK techniques" issues={errorsAt("attack.techniques")}>
+            {(id) => (
+              <>
+                <div className="flex flex-wrap gap-2">
+                  {techniques.map((t) => (
+                    <span key={t} className="flex items-center gap-1 rounded-lg border px-2 py-1 text-sm">
+                      <span className="font-mono text-xs text-gray-500">{t}</span> {techniqueLabel(t)}
+                      <button type="button" onClick={() => set("attack", { ...draft.attack, techniques: techniques.filter((x) => x !== t) })} className="text-xs text-gray-500 hover:text-gray-900" aria-label={`Remove ${t}`}>✕</button>
+                    </span>
+                  ))}
+                </div>
+                <div className="flex gap-2">
+                  <input id={id} list="editor-techniques" className={INPUT} placeholder="T1053.005" value={technique} onChange={(e) => setTechnique(e.target.value)} onKeyDown={(e) => { if (e.key === "Enter") { e.preventDefault(); addTechnique(technique); } }} />
+                  <button type="button" onClick={() => addTechnique(technique)} className="rounded-xl border px-3 py-1.5 hover:bg-gray-100">Add</button>
+                </div>
+                <datalist id="editor-techniques">{ATTACK.techniques.map((t) => (<option key={t.id} value={t.id}>{t.name}</option>))}</datalist>
+              </>
+            )}
+          </Field>
+          {issuesAt(report.warnings, "attack").map((w, i) => (<p key={i} className="text-xs text-amber-700">{w.message}</p>))}
+        </Section>
+
+        <Section title="Locations">
+          <Options id="editor-scopes" values={EDITOR_OPTIONS.scopes} />
+          <Rows items={draft.locations} onChange={(v) => set("locations", v)} blank={(): Location => ({ path: "", scope: "system" })} addLabel="Location" render={(l, update, i) => (
+            <>
+              <Field label="Path" issues={errorsAt(`locations[${i}]`)}>{(id) => <input id={id} className={`${INPUT} font-mono text-sm`} value={l.path} onChange={(e) => update({ path: e.target.value })} />}</Field>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <Field label="Scope" hint="system, user, or the tool a path belongs to">{(id) => <input id={id} list="editor-scopes" className={INPUT} value={l.scope ?? ""} onChange={(e) => update({ scope: e.target.value })} />}</Field>
+                <Field label="Notes">{(id) => <input id={id} className={INPUT} value={l.notes ?? ""} onChange={(e) => update({ notes: e.target.value })} />}</Field>
+              </div>
+            </>
+          )} />
+        </Section>
+
+        <Section title="Timestamps">
+          <Rows items={draft.timestamps} onChange={(v) => set("timestamps", v)} blank={(): TimestampField => ({ name: "" })} addLabel="Timestamp field" render={(t, update, i) => (
+            <>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <Field label="Field" issues={errorsAt(`timestamps[${i}].name`)}>{(id) => <input id={id} className={INPUT} value={t.name} onChange={(e) => update({ name: e.target.value })} />}</Field>
+                <Field label="Stored in">{(id) => <input id={id} className={INPUT} value={t.source ?? ""} onChange={(e) => update({ source: e.target.value })} />}</Field>
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <Field label="Encoding">
+                  {(id) => (
+                    <select id={id} className={SELECT} value={t.encoding ?? ""} onChange={(e) => update({ encoding: (e.target.value || undefined) as TimestampEncoding | undefined })}>
+                      <option value="">Unspecified</option>
+                      {ENCODINGS.map((e) => (<option key={e} value={e}>{ENCODING_LABEL[e]}</option>))}
+                    </select>
+                  )}
+                </Field>
+                <Field label="Time zone">
+                  {(id) => (
+                    <select id={id} className={SELECT} value={t.tz_behavior ?? ""} onChange={(e) => update({ tz_behavior: (e.target.value || undefined) as TimezoneBehavior | undefined })}>
+                      <option value="">Unspecified</option>
+                      {TZ_BEHAVIORS.map((z) => (<option key={z} value={z}>{TZ_LABEL[z]}</option>))}
+                    </select>
+                  )}
+                </Field>
+                <Field label="Precision">
+                  {(id) => (
+                    <select id={id} className={SELECT} value={t.precision ?? ""} onChange={(e) => update({ precision: (e.target.value || undefined) as TimestampPrecision | undefined })}>
+                      <option value="">Unspecified</option>
+                      {PRECISIONS.map((p) => (<option key={p} value={p}>{PRECISION_LABEL[p]}</option>))}
+                    </select>
+                  )}
+                </Field>
+              </div>
+              <Field label="Notes">{(id) => <input id={id} className={INPUT} value={t.notes ?? ""} onChange={(e) => update({ notes: e.target.value })} />}</Field>
+            </>
+          )} />
+        </Section>
+
+        <Section title="Parsers">
+          <Options id="editor-tools" values={EDITOR_OPTIONS.tools} />
+          <Options id="editor-timeline-fields" values={TIMELINE_FIELDS.map((f) => f.id)} />
+          <Rows items={draft.parsers} onChange={(v) => set("parsers", v)} blank={(): ParserRef => ({ tool_name: "" })} addLabel="Parser" render={(p, update, i) => (
+            <>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <Field label="Tool" issues={errorsAt(`parsers[${i}].tool_name`)}>{(id) => <input id={id} list="editor-tools" className={INPUT} value={p.tool_name} onChange={(e) => update({ tool_name: e.target.value })} />}</Field>
+                <Field label="Runs in">
+                  {(id) => (
+                    <select id={id} className={SELECT} value={p.runs_in ?? ""} onChange={(e) => update({ runs_in: (e.target.value || undefined) as typeof p.runs_in })}>
+                      <option value="">Executable</option>
+                      <option value="shell">Shell</option>
+                      <option value="powershell">PowerShell</option>
+                      <option value="query">Query (KQL, Graph, VQL…)</option>
+                    </select>
+                  )}
+                </Field>
+              </div>
+              <Field label="Command" issues={errorsAt(`parsers[${i}].command_example`)} hint="Placeholders like {source} and {output_dir} come from data/command-variables.json.">
+                {(id) => <textarea id={id} rows={2} className={`${INPUT} font-mono text-sm`} value={p.command_example ?? ""} onChange={(e) => update({ command_example: e.target.value })} />}
+              </Field>
+              <Field label="Variable defaults" issues={errorsAt(`parsers[${i}].variables`)}>{(id) => <PairsInput id={id} value={p.variables} onChange={(v) => update({ variables: v })} placeholder="system_hive = {source}\Windows\…" />}</Field>
+              <div className="space-y-1">
+                <p className="text-sm text-gray-600">Output columns</p>
+                <OutputFieldsInput value={p.output_fields} onChange={(v) => update({ output_fields: v })} fieldList="editor-timeline-fields" />
+                <p className="text-xs text-gray-500">Map a column to a field from data/timeline-fields.json to list it in the crosswalk and the column mapping.</p>
+                {errorsAt(`parsers[${i}].output_fields`).map((e, n) => (<p key={n} className="text-xs text-red-600">{e.message}</p>))}
+              </div>
+              <Field label="Links" issues={errorsAt(`parsers[${i}].links`)}>{(id) => <LinesInput id={id} rows={1} value={p.links} onChange={(v) => update({ links: v })} placeholder="https://…" />}</Field>
+            </>
+          )} />
+        </Section>
+
+        <Section title="Event IDs">
+          <Options id="editor-event-sources" values={EDITOR_OPTIONS.eventSources} />
+          <Rows items={draft.event_ids} onChange={(v) => set("event_ids", v)} blank={() => ({ ids: [], source: "", description: "" })} addLabel="Event ID group" render={(g, update, i) => (
+            <>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <Field label="Log" issues={[...errorsAt(`event_ids[${i}].source`), ...issuesAt(report.warnings, `event_ids[${i}].source`)]}>{(id) => <input id={id} list="editor-event-sources" className={INPUT} value={g.source} onChange={(e) => update({ source: e.target.value })} />}</Field>
+                <Field label="IDs" issues={errorsAt(`event_ids[${i}].ids`)}>{(id) => <ListInput id={id} value={g.ids} onChange={(v) => update({ ids: v })} placeholder="4624, 4625" />}</Field>
+              </div>
+              <Field label="What they indicate" issues={errorsAt(`event_ids[${i}].description`)}>{(id) => <input id={id} className={INPUT} value={g.description} onChange={(e) => update({ description: e.target.value })} />}</Field>
+              <Field label="Titles" issues={errorsAt(`event_ids[${i}].titles`)}>{(id) => <PairsInput id={id} value={g.titles} onChange={(v) => update({ titles: v })} placeholder="4624 = Successful logon" />}</Field>
+            </>
+          )} />
+        </Section>
+
+        <Section title="Collection & checks">
+          <div className="space-y-1">
+            <p className="text-sm text-gray-600">Collection steps</p>
+            <Options id="editor-step-categories" values={EDITOR_OPTIONS.stepCategories} />
+            <Rows items={draft.collection_steps} onChange={(v) => set("collection_steps", v)} blank={() => ({ category: "", steps: [] })} addLabel="Step group" render={(c, update, i) => (
+              <>
+                <Field label="Category" issues={errorsAt(`collection_steps[${i}].category`)}>{(id) => <input id={id} list="editor-step-categories" className={INPUT} value={c.category} onChange={(e) => update({ category: e.target.value })} />}</Field>
+                <Field label="Steps (one per line)" issues={errorsAt(`collection_steps[${i}].steps`)}>{(id) => <LinesInput id={id} value={c.steps} onChange={(v) => update({ steps: v })} />}</Field>
+              </>
+            )} />
+          </div>
+          {STRING_LISTS.map(({ key, label, hint }) => (
+            <Field key={key} label={`${label} (one per line)`} hint={hint}>{(id) => <LinesInput id={id} value={draft[key]} onChange={(v) => set(key, v)} />}</Field>
+          ))}
+        </Section>
+
+        <Section title="References">
+          <Rows items={draft.references} onChange={(v) => set("references", v)} blank={() => ({ title: "", url: "" })} addLabel="Reference" render={(r, update, i) => (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <Field label="Title" issues={errorsAt(`references[${i}].title`)}>{(id) => <input id={id} className={INPUT} value={r.title} onChange={(e) => update({ title: e.target.value })} />}</Field>
+              <Field label="URL" issues={errorsAt(`references[${i}].url`)}>{(id) => <input id={id} type="url" className={INPUT} value={r.url} onChange={(e) => update({ url: e.target.value })} />}</Field>
+            </div>
+          )} />
+        </Section>
+
+        <Section title="Relations">
+          <Rows items={draft.relations} onChange={(v) => set("relations", v)} blank={(): Relation => ({ type: "corroborates", target: "" })} addLabel="Relation" render={(r, update, i) => (
+            <>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <Field label="Type">
+                  {(id) => (
+                    <select id={id} className={SELECT} value={r.type} onChange={(e) => update({ type: e.target.value as RelationType })}>
+                      {RELATION_TYPES.map((t) => (<option key={t} value={t}>{RELATION_LABEL[t].out}</option>))}
+                    </select>
+                  )}
+                </Field>
+                <Field label="Artifact" issues={errorsAt(`relations[${i}]`)}>
+                  {(id) => (
+                    <select id={id} className={SELECT} value={r.target} onChange={(e) => update({ target: e.target.value })}>
+                      <option value="">Choose…</option>
+                      {artifacts.filter((a) => a.id !== base?.id).map((a) => (<option key={a.id} value={a.id}>{a.name}</option>))}
+                    </select>
+                  )}
+                </Field>
+              </div>
+              <Field label="Note">{(id) => <input id={id} className={INPUT} value={r.note ?? ""} onChange={(e) => update({ note: e.target.value })} />}</Field>
+            </>
+          )} />
+        </Section>
+      </form>
+
+      <aside className="md:col-span-5 space-y-4 md:sticky md:top-24 md:self-start md:max-h-[calc(100vh-7rem)] md:overflow-y-auto">
+        <section className="bg-white rounded-2xl border p-4 space-y-3">
+          <h2 className="text-base font-semibold uppercase tracking-wider text-gray-500">Output</h2>
+          {valid ? (
+            <p className="text-sm text-green-700">Passes the same checks as <span className="font-mono">npm run validate-data</span>.</p>
+          ) : (
+            <div className="rounded-xl border border-amber-300 bg-amber-50 p-3 text-sm text-amber-900">
+              <p>{report.errors.length + report.elsewhere.length} problem{report.errors.length + report.elsewhere.length !== 1 ? "s" : ""} to fix before this can be merged:</p>
+              <ul className="mt-1 list-disc list-inside">
+                {report.errors.map((e, i) => (<li key={i}><span className="font-mono text-xs">{e.field || "artifact"}</span>: {e.message}</li>))}
+                {report.elsewhere.map((e, i) => (<li key={`x${i}`}><span className="font-mono text-xs">{e.artifactId ?? e.path}</span>: {e.message}</li>))}
+              </ul>
+            </div>
+          )}
+          {published && <p className="text-sm text-gray-600">{changed.length ? <>Changed: <span className="font-mono text-xs">{changed.join(", ")}</span></> : "No changes yet."}</p>}
+          <div className="flex flex-wrap gap-2">
+            <button type="button" onClick={() => downloadText(`${file}.json`, seedEntry(artifact) + "\n", "application/json")} className="rounded-xl border px-3 py-1.5 hover:bg-gray-100">Download JSON</button>
+            <button type="button" disabled={!!published && changed.length === 0} onClick={() => downloadText(`${file}.patch.json`, JSON.stringify(patch, null, 2) + "\n", "application/json-patch+json")} className="rounded-xl border px-3 py-1.5 hover:bg-gray-100 disabled:opacity-50">Download patch</button>
+            <button type="button" disabled={!valid} onClick={saveLocal} className="rounded-xl border px-3 py-1.5 hover:bg-gray-100 disabled:opacity-50">Save to this browser</button>
+          </div>
+          {saveErrors.length > 0 && (
+            <ul className="list-disc list-inside text-sm text-red-700">
+              {saveErrors.map((e, i) => (<li key={i}><span className="font-mono text-xs">{e.artifactId ?? e.path}</span>: {e.message}</li>))}
+            </ul>
+          )}
+          <p className="text-xs text-gray-500">
+            The JSON is the entry as it goes into <span className="font-mono">data/seed.json</span>{published ? ", replacing the current one" : ", appended to the list"}. The patch is an RFC 6902 JSON Patch against that file{published ? ", with only the changed fields" : ""}.
+            Saving keeps the artifact in this browser&apos;s <Link className="underline" href="/local/">local artifacts</Link> only{published ? ", overriding the published entry" : ""}.
+          </p>
+        </section>
+        <article className="bg-white rounded-2xl border shadow-sm p-6">
+          <ArtifactDetail artifact={artifact} preview />
+        </article>
+      </aside>
+    </main>
+  );
+}
+
+export default function ArtifactEditor() {
+  const searchParams = useSearchParams();
+  const slug = searchParams.get("artifact") ?? "";
+  const catalogue = useCatalogue();
+  const base = getArtifactBySlug(slug, catalogue.artifacts);
+  const kind = base && catalogue.localKind(base.id);
+
+  function open(next: string) { window.history.replaceState(null, "", window.location.pathname + (next ? `?artifact=${encodeURIComponent(next)}` : "")); }
+
+  return (
+    <div className="min-h-screen">
+      <SiteHeader actions={base && <Link href={artifactHref(base.slug)} className="rounded-xl border px-3 py-2 hover:bg-gray-100">View artifact</Link>}>
+        <label className="sr-only" htmlFor="editor-base">Artifact to edit</label>
+        <select id="editor-base" className={SELECT} value={base?.slug ?? ""} onChange={(e) => open(e.target.value)}>
+          <option value="">New artifact</option>
+          {catalogue.artifacts.map((a) => (<option key={a.id} value={a.slug}>Edit: {a.name}{catalogue.localKind(a.id) ? " (local)" : ""}</option>))}
+        </select>
+      </SiteHeader>
+      {slug && !base && <p className="mx-auto max-w-7xl px-4 pt-6 text-base text-amber-700">No artifact with slug &quot;{slug}&quot;; starting a new one. <Link className="underline" href={editorHref()}>Clear</Link></p>}
+      {/* Keyed so switching artifacts, or a local copy replacing the published one, starts a fresh draft. */}
+      <EditorForm key={`${base?.slug ?? ""}:${kind ?? ""}`} base={base} catalogue={catalogue} onSaved={open} />
+    </div>
+  );
+}
@@ -1,110 +1,106 @@
 "use client";
-import React, { useEffect, useMemo, useState } from "react";
-import seed from "@/data/seed.json";
-
-type Platform = "windows" | "linux" | "m365" | "gws";
-
-type Location = { path: string; scope?: string; notes?: string };
-
-type TimestampField = { name: string; source?: string; tz_behavior?: string; precision?: string; notes?: string };
-
-type ParserRef = { tool_name: string; command_example?: string; output_fields?: Record<string, string>; links?: string[] };
-
-type EventIdGroup = {
-  ids: string[];           // e.g., ["4624","4625"]
-  source: string;          // e.g., "Security" or provider name
-  description: string;     // what these events indicate
-};
-
-type CollectionSteps = { category: string; steps: string[] };
-
-type CollectionGroup = { category: string; steps: string[] }; 
-
-type Artifact = {
-  id: string; name: string; slug: string; platform: Platform; tactic_tags?: string[]; artifact_class?: string; summary: string; description?: string;
-  locations?: Location[]; timestamps?: TimestampField[]; parsers?: ParserRef[]; collection_methods?: string[]; validation?: string[]; known_pitfalls?: string[];
-  references?: { title: string; url: string }[]; event_ids?: EventIdGroup[]; collection_steps?: CollectionSteps[]; gui_log_collection_steps?: string[]; due_diligence_checks?: string[]; additional_checks?: string[];
-};
-
-const PLATFORM_LABEL: Record<Platform, string> = { windows: "Windows", linux: "Linux", m365: "Microsoft 365", gws: "Google Workspace" };
-
-function classNames(...xs: Array<string | false | undefined>) { return xs.filter(Boolean).join(" "); }
-function uniq<T>(arr: T[]): T[] { return Array.from(new Set(arr)); }
-async function copyLines(lines: string[], title?: string) {
-  const text = (title ? `# ${title}\n` : "") + lines.map(l => `- ${l}`).join("\n");
-  try {
-    await navigator.clipboard.writeText(text.trim());
-    alert("Copied to clipboard.");
-  } catch {
-    alert("Could not copy to clipboard.");
-  }
-}
-
-export default function ArtifactExplorer() {
-  const SEED = seed as unknown as Artifact[];
-  const [query, setQuery] = useState("");
-  const [platforms, setPlatforms] = useState<Platform[]>(["windows", "linux", "m365", "gws"]);
-  const [tactics, setTactics] = useState<string[]>([]);
-  const [tools, setTools] = useState<string[]>([]);
-  const [selected, setSelected] = useState<Artifact | null>(null);
-
-  const allTactics = useMemo(() => uniq(SEED.flatMap((a) => a.tactic_tags ?? [])).sort(), [SEED]);
-  const allTools = useMemo(() => uniq(SEED.flatMap((a) => (a.parsers ?? []).map((p) => p.tool_name))).sort(), [SEED]);
-
-  const filtered = useMemo(() => {
-    const q = query.trim().toLowerCase();
-    return SEED.filter((a) =>
-      platforms.includes(a.platform) &&
-      (tactics.length === 0 || (a.tactic_tags ?? []).some((t) => tactics.includes(t))) &&
-      (tools.length === 0 || (a.parsers ?? []).some((p) => tools.includes(p.tool_name))) &&
-      (q === "" ||
-      a.name.toLowerCase().includes(q) ||
-      a.summary.toLowerCase().includes(q) ||
-      (a.description ?? "").toLowerCase().includes(q) ||
-      (a.locations ?? []).some((l) => l.path.toLowerCase().includes(q)) ||
-      (a.event_ids ?? []).some(g =>
-        g.source.toLowerCase().includes(q) ||
-        g.description.toLowerCase().includes(q) ||
-        g.ids.some(id => id.includes(q))
-      )
-    )
-    );
-  }, [query, platforms, tactics, tools, SEED]);
-
-  function togglePlatform(p: Platform) { setPlatforms((prev) => (prev.includes(p) ? prev.filter((x) => x !== p) : [...prev, p])); }
-  function toggleTactic(t: string) { setTactics((prev) => (prev.includes(t) ? prev.filter((x) => x !== t) : [...prev, t])); }
-  function toggleTool(t: string) { setTools((prev) => (prev.includes(t) ? prev.filter((x) => x !== t) : [...prev, t])); }
-  function clearAll() { setQuery(""); setPlatforms(["windows", "linux", "m365", "gws"]); setTactics([]); setTools([]); }
-
-  useEffect(() => { const onKey = (e: KeyboardEvent) => { if (e.key === "Escape") setSelected(null); }; window.addEventListener("keydown", onKey); return () => window.removeEventListener("keydown", onKey); }, []);
+import Link from "next/link";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import ArtifactDetail from "@/components/ArtifactDetail";
+import Highlight from "@/components/Highlight";
+import LocalBadge from "@/components/LocalBadge";
+import PlatformBadge from "@/components/PlatformBadge";
+import SiteHeader from "@/components/SiteHeader";
+import { getArtifactBySlug } from "@/lib/artifacts";
+import { compareHref } from "@/lib/compare";
+import { PLATFORM_DEFS, PLATFORM_GROUPS, PLATFORM_GROUP_LABEL } from "@/lib/platforms";
+import { playbookHref } from "@/lib/playbook";
+import type { Platform } from "@/lib/schema";
+import { buildSearchIndex, searchArtifacts, type SearchIndex } from "@/lib/search";
+import { useCatalogue } from "@/lib/useCatalogue";
+import { DEFAULT_STATE, parseExplorerState, serializeExplorerState, type ExplorerState } from "@/lib/urlState";
+import { classNames, uniq } from "@/lib/utils";
+
+function toggle<T>(xs: T[], x: T): T[] { return xs.includes(x) ? xs.filter((y) => y !== x) : [...xs, x]; }
+
+export default function ArtifactExplorer({ index }: { index: SearchIndex }) {
+  // The query string is the source of truth for filters and the open artifact.
+  const searchParams = useSearchParams();
+  const state = useMemo(() => parseExplorerState(searchParams), [searchParams]);
+  const { platforms, tactics, tools } = state;
+  const { artifacts, local, localKind } = useCatalogue();
+  const selected = state.artifact ? getArtifactBySlug(state.artifact, artifacts) ?? null : null;
+  // The prebuilt index only knows the published catalogue; local artifacts need one built here.
+  const searchIndex = useMemo(() => (local.length ? buildSearchIndex(artifacts) : index), [index, local, artifacts]);
+
+  // The search box keeps its own state so typing is never interrupted by URL round-trips;
+  // it only re-syncs when the URL changes underneath it (back/forward, Reset).
+  const [query, setQuery] = useState(state.query);
+  const lastWrittenQuery = useRef(state.query);
+  useEffect(() => {
+    if (state.query !== lastWrittenQuery.current) { lastWrittenQuery.current = state.query; setQuery(state.query); }
+  }, [state.query]);
+
+  // Next.js syncs useSearchParams with native history calls, so no navigation round-trip is needed.
+  const navigate = useCallback((patch: Partial<ExplorerState>, mode: "push" | "replace" = "push") => {
+    const next = { ...state, query: lastWrittenQuery.current, ...patch };
+    lastWrittenQuery.current = next.query;
+    const url = window.location.pathname + serializeExplorerState(next);
+    if (mode === "push") window.history.pushState(null, "", url);
+    else window.history.replaceState(null, "", url);
+  }, [state]);
+
+  const allTactics = useMemo(() => uniq(artifacts.flatMap((a) => a.tactic_tags ?? [])).sort(), [artifacts]);
+  const allTools = useMemo(() => uniq(artifacts.flatMap((a) => (a.parsers ?? []).map((p) => p.tool_name))).sort(), [artifacts]);
+
+  // Query (with qualifiers) ranks via the prebuilt index; sidebar facets narrow the ranked list.
+  const hits = useMemo(() => searchArtifacts(searchIndex, artifacts, query, state.fuzzy ? "fuzzy" : "prefix").filter(({ artifact: a }) =>
+    platforms.includes(a.platform) &&
+    (tactics.length === 0 || (a.tactic_tags ?? []).some((t) => tactics.includes(t))) &&
+    (tools.length === 0 || (a.parsers ?? []).some((p) => tools.includes(p.tool_name)))
+  ), [searchIndex, artifacts, query, state.fuzzy, platforms, tactics, tools]);
+
+  // Hand-picked artifacts take precedence over the whole result set.
+  const playbookSlugs = state.compare.length > 0 ? state.compare : hits.map((h) => h.artifact.slug);
+
+  function changeQuery(q: string) { setQuery(q); navigate({ query: q }, "replace"); }
+  function togglePlatform(p: Platform) { navigate({ platforms: toggle(platforms, p) }); }
+  function toggleTactic(t: string) { navigate({ tactics: toggle(tactics, t) }); }
+  function toggleTool(t: string) { navigate({ tools: toggle(tools, t) }); }
+  function toggleCompare(slug: string) { navigate({ compare: toggle(state.compare, slug) }, "replace"); }
+  function clearAll() { setQuery(""); navigate({ ...DEFAULT_STATE, compare: state.compare }); }
+  const openArtifact = useCallback((slug: string | null) => navigate({ artifact: slug }), [navigate]);
+
+  useEffect(() => {
+    if (!selected) return;
+    const onKey = (e: KeyboardEvent) => { if (e.key === "Escape") openArtifact(null); };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [selected, openArtifact]);
 
   return (
     <div className="min-h-screen">
-      <header className="sticky top-0 z-10 bg-white/80 backdrop-blur border-b">
-        <div className="mx-auto max-w-7xl px-4 py-4 flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
-          <div className="flex items-center gap-3">
-            <div className="h-9 w-9 rounded-2xl bg-gray-900 text-white flex items-center justify-center font-bold">DF</div>
-            <h1 className="text-xl font-semibold">DFIR Artifact Explorer</h1>
-          </div>
-          <div className="flex-1 md:max-w-xl">
-            <label className="sr-only" htmlFor="global-search">Search artifacts</label>
-            <input id="global-search" className="w-full rounded-xl border px-4 py-2 focus:outline-none focus:ring-2 focus:ring-gray-900" placeholder="Search by name, path, or description…" value={query} onChange={(e) => setQuery(e.target.value)} />
-          </div>
-          <div className="flex gap-2"><button onClick={clearAll} className="rounded-xl border px-3 py-2 hover:bg-gray-100">Reset</button></div>
-        </div>
-      </header>
+      <SiteHeader actions={<button onClick={clearAll} className="rounded-xl border px-3 py-2 hover:bg-gray-100">Reset</button>}>
+        <label className="sr-only" htmlFor="global-search">Search artifacts</label>
+        <input id="global-search" className="w-full rounded-xl border px-4 py-2 focus:outline-none focus:ring-2 focus:ring-gray-900" placeholder="Search… e.g. amcache platform:windows tool:KAPE -m365" value={query} onChange={(e) => changeQuery(e.target.value)} />
+      </SiteHeader>
 
       <main className="mx-auto max-w-7xl px-4 py-6 grid grid-cols-1 md:grid-cols-12 gap-6">
         <aside className="md:col-span-3 space-y-6">
           <section>
             <h2 className="text-base font-semibold uppercase tracking-wider text-gray-500">Platforms</h2>
-            <div className="mt-2 flex flex-wrap gap-2">
-              {(["windows","linux","m365","gws"] as Platform[]).map((p) => (
-                <button key={p} onClick={() => togglePlatform(p)} className={classNames("px-3 py-1 rounded-full border text-base", platforms.includes(p) ? "bg-gray-900 text-white border-gray-900" : "hover:bg-gray-100")} aria-pressed={platforms.includes(p)}>
-                  {PLATFORM_LABEL[p]}
-                </button>
-              ))}
-            </div>
+            {PLATFORM_GROUPS.map((g) => {
+              const defs = PLATFORM_DEFS.filter((p) => p.group === g);
+              return defs.length > 0 && (
+                <div key={g} className="mt-2">
+                  <h3 className="text-xs text-gray-500">{PLATFORM_GROUP_LABEL[g]}</h3>
+                  <div className="mt-1 flex flex-wrap gap-2">
+                    {defs.map((p) => (
+                      <button key={p.id} onClick={() => togglePlatform(p.id)} className={classNames("px-3 py-1 rounded-full border text-base inline-flex items-center gap-1.5", platforms.includes(p.id) ? "bg-gray-900 text-white border-gray-900" : "hover:bg-gray-100")} aria-pressed={platforms.includes(p.id)}>
+                        <span className="h-2 w-2 rounded-full" style={{ background: p.color }} aria-hidden="true" />
+                        {p.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
           </section>
           <section>
             <h2 className="text-base font-semibold uppercase tracking-wider text-gray-500">Tactics</h2>
@@ -130,250 +126,76 @@ export default function ArtifactExplorer() {
 
         <section className="md:col-span-9">
           <div className="flex items-center justify-between mb-3">
-            <p className="text-base text-gray-500">{filtered.length} result{filtered.length !== 1 ? "s" : ""}</p>
+            <p className="text-base text-gray-500">{hits.length} result{hits.length !== 1 ? "s" : ""}</p>
+            <div className="flex items-center gap-3">
+              <label className="flex items-center gap-2 text-sm text-gray-600" title="Also match terms within one or two typos">
+                <input type="checkbox" checked={state.fuzzy} onChange={(e) => navigate({ fuzzy: e.target.checked })} />
+                Typo-tolerant
+              </label>
+              <Link
+                href={playbookHref(playbookSlugs)}
+                className="rounded-xl border px-3 py-1 text-sm hover:bg-gray-100"
+                title={state.compare.length > 0 ? "Export the picked artifacts as a collection playbook" : "Export the current results as a collection playbook"}
+              >
+                Playbook ({playbookSlugs.length})
+              </Link>
+              {state.compare.length > 0 && (
+                <>
+                  <button onClick={() => navigate({ compare: [] }, "replace")} className="text-sm text-gray-500 underline">Clear</button>
+                  <Link
+                    href={compareHref(state.compare)}
+                    aria-disabled={state.compare.length < 2}
+                    className={classNames("rounded-xl border px-3 py-1 text-sm", state.compare.length < 2 ? "pointer-events-none text-gray-400" : "bg-gray-900 text-white border-gray-900")}
+                  >
+                    Compare ({state.compare.length})
+                  </Link>
+                </>
+              )}
+            </div>
           </div>
           <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-4">
-            {filtered.map((a) => (
-              <article key={a.id} className="bg-white rounded-2xl border shadow-sm hover:shadow transition cursor-pointer" onClick={() => setSelected(a)}>
-                <div className="p-4 space-y-2">
-                  <div className="flex items-center gap-2">
-                    <span className="text-xs px-2 py-0.5 rounded-full bg-gray-100 border">{PLATFORM_LABEL[a.platform]}</span>
-                    {a.tactic_tags?.slice(0, 2).map((t) => (
-                      <span key={t} className="text-xs px-2 py-0.5 rounded-full bg-gray-50 border text-gray-600">{t}</span>
-                    ))}
-                  </div>
-                  <h3 className="text-lg font-semibold">{a.name}</h3>
-                  <p className="text-base text-gray-600 line-clamp-3">{a.summary}</p>
-                  {a.locations && (
-                    <div className="mt-2">
-                      <h4 className="text-xs font-semibold text-gray-500">Location(s)</h4>
-                      <ul className="mt-1 space-y-1">
-                        {a.locations.slice(0, 2).map((l, idx) => (
-                          <li key={idx} className="text-xs font-mono break-all bg-gray-50 border rounded px-2 py-1">{l.path}</li>
-                        ))}
-                        {a.locations.length > 2 && (<li className="text-xs text-gray-500">+{a.locations.length - 2} more</li>)}
-                      </ul>
+            {hits.map(({ artifact: a, matched }) => {
+              const terms = new Set(matched);
+              return (
+                <article key={a.id} className="bg-white rounded-2xl border shadow-sm hover:shadow transition cursor-pointer" onClick={() => openArtifact(a.slug)}>
+                  <div className="p-4 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <PlatformBadge platform={a.platform} />
+                      <LocalBadge kind={localKind(a.id)} />
+                      {a.tactic_tags?.slice(0, 2).map((t) => (
+                        <span key={t} className="text-xs px-2 py-0.5 rounded-full bg-gray-50 border text-gray-600">{t}</span>
+                      ))}
+                      <label className="ml-auto flex items-center gap-1 text-xs text-gray-500" onClick={(e) => e.stopPropagation()}>
+                        <input type="checkbox" checked={state.compare.includes(a.slug)} onChange={() => toggleCompare(a.slug)} />
+                        Compare
+                      </label>
                     </div>
-                  )}
-                </div>
-              </article>
-            ))}
+                    <h3 className="text-lg font-semibold"><Highlight text={a.name} terms={terms} /></h3>
+                    <p className="text-base text-gray-600 line-clamp-3"><Highlight text={a.summary} terms={terms} /></p>
+                    {a.locations && (
+                      <div className="mt-2">
+                        <h4 className="text-xs font-semibold text-gray-500">Location(s)</h4>
+                        <ul className="mt-1 space-y-1">
+                          {a.locations.slice(0, 2).map((l, idx) => (
+                            <li key={idx} className="text-xs font-mono break-all bg-gray-50 border rounded px-2 py-1"><Highlight text={l.path} terms={terms} /></li>
+                          ))}
+                          {a.locations.length > 2 && (<li className="text-xs text-gray-500">+{a.locations.length - 2} more</li>)}
+                        </ul>
+                      </div>
+                    )}
+                  </div>
+                </article>
+              );
+            })}
           </div>
         </section>
       </main>
 
       {selected && (
         <div className="fixed inset-0 z-20 flex">
-          <div className="flex-1 bg-black/40" onClick={() => setSelected(null)} aria-hidden="true" />
+          <div className="flex-1 bg-black/40" onClick={() => openArtifact(null)} aria-hidden="true" />
           <aside className="w-full max-w-7xl h-full overflow-y-auto bg-white border-l shadow-xl p-6">
-            <div className="flex items-start justify-between gap-4">
-              <div>
-                <div className="flex items-center gap-2 mb-2">
-                  <span className="text-xs px-2 py-0.5 rounded-full bg-gray-100 border">{PLATFORM_LABEL[selected.platform]}</span>
-                  {selected.tactic_tags?.map((t) => (
-                    <span key={t} className="text-xs px-2 py-0.5 rounded-full bg-gray-50 border text-gray-600">{t}</span>
-                  ))}
-                </div>
-                <h2 className="text-xl font-semibold">{selected.name}</h2>
-                {selected.artifact_class && (<p className="text-base text-gray-500">Class: {selected.artifact_class}</p>)}
-              </div>
-              <button onClick={() => setSelected(null)} className="rounded-lg border px-2 py-1 hover:bg-gray-100" aria-label="Close details">Close</button>
-            </div>
-            {selected.summary && (<p className="mt-3 text-base text-gray-700">{selected.summary}</p>)}
-            {selected.description && (<p className="mt-2 text-base text-gray-600">{selected.description}</p>)}
-            {selected.locations && selected.locations.length > 0 && (
-          <section className="mt-6">
-            <h3 className="text-base font-semibold text-gray-700">Locations</h3>
-
-            {(() => {
-              // Group by scope (tool name)
-              const groups = selected.locations!.reduce<Record<string, Location[]>>((acc, loc) => {
-                const key = (loc.scope ?? "General").trim();
-                (acc[key] ||= []).push(loc);
-                return acc;
-              }, {});
-
-              const toolNames = Object.keys(groups).sort((a, b) =>
-                a.toLowerCase().localeCompare(b.toLowerCase())
-              );
-
-              return (
-                <div className="mt-2 space-y-3">
-                  {toolNames.map((tool) => (
-                    <details key={tool} className="border rounded-xl p-3 bg-white" open>
-                      <summary className="cursor-pointer text-base font-medium">{tool}</summary>
-                      <ul className="mt-2 space-y-1">
-                        {groups[tool].map((l, idx) => (
-                          <li key={idx} className="text-xs font-mono bg-gray-50 border rounded px-2 py-1 break-all">
-                            {l.path}
-                            {(l.notes || l.scope) && (
-                              <div className="mt-0.5 text-[11px] text-gray-600">
-                                {l.notes ? l.notes : ""}
-                              </div>
-                            )}
-                          </li>
-                        ))}
-                      </ul>
-                    </details>
-                  ))}
-                </div>
-              );
-            })()}
-          </section>
-        )}
-
-            {selected.timestamps && selected.timestamps.length > 0 && (
-              <section className="mt-6">
-                <h3 className="text-base font-semibold text-gray-700">Timestamps</h3>
-                <div className="mt-2 border rounded-xl divide-y">
-                  {selected.timestamps.map((t, idx) => (
-                    <div key={idx} className="p-3 text-base">
-                      <div className="font-medium">{t.name}</div>
-                      <div className="text-xs text-gray-600">{t.source}</div>
-                      <div className="text-xs text-gray-500">TZ: {t.tz_behavior} · Precision: {t.precision}</div>
-                      {t.notes && <div className="text-xs text-gray-500 mt-1">{t.notes}</div>}
-                    </div>
-                  ))}
-                </div>
-              </section>
-            )}
-            {selected.parsers && selected.parsers.length > 0 && (
-              <section className="mt-6">
-                <h3 className="text-base font-semibold text-gray-700">Parsers & Commands</h3>
-                <div className="mt-2 space-y-3">
-                  {selected.parsers.map((p, idx) => (
-                    <div key={idx} className="border rounded-xl p-3">
-                      <div className="text-base font-medium">{p.tool_name}</div>
-                      {p.command_example && (
-                        <div className="mt-2 text-xs font-mono bg-gray-50 border rounded p-2 break-all">
-                          <div className="flex items-center justify-between gap-2">
-                            <span>{p.command_example}</span>
-                            <button className="text-xs underline" onClick={async () => { try { await navigator.clipboard.writeText(p.command_example!); } catch {} }}>Copy</button>
-                          </div>
-                        </div>
-                      )}
-                      {p.output_fields && (
-                        <ul className="mt-2 text-xs text-gray-600 list-disc list-inside">
-                          {Object.entries(p.output_fields).map(([k, v]) => (<li key={k}><span className="font-mono">{k}</span>: {v}</li>))}
-                        </ul>
-                      )}
-                    </div>
-                  ))}
-                </div>
-              </section>
-            )}
-            {selected.validation && selected.validation.length > 0 && (
-              <section className="mt-6">
-                <h3 className="text-base font-semibold text-gray-700">Validation / Corroboration</h3>
-                <ul className="mt-2 list-disc list-inside text-base text-gray-700">
-                  {selected.validation.map((v, idx) => (<li key={idx}>{v}</li>))}
-                </ul>
-              </section>
-            )}
-            {selected.known_pitfalls && selected.known_pitfalls.length > 0 && (
-              <section className="mt-6">
-                <h3 className="text-base font-semibold text-gray-700">Known Pitfalls</h3>
-                <ul className="mt-2 list-disc list-inside text-base text-gray-700">
-                  {selected.known_pitfalls.map((v, idx) => (<li key={idx}>{v}</li>))}
-                </ul>
-              </section>
-            )}
-            {selected.references && selected.references.length > 0 && (
-              <section className="mt-6">
-                <h3 className="text-base font-semibold text-gray-700">References</h3>
-                <ul className="mt-2 list-disc list-inside text-base text-gray-700">
-                  {selected.references.map((r, idx) => (
-                    <li key={idx}><a className="underline" href={r.url} target="_blank" rel="noreferrer">{r.title}</a></li>
-                  ))}
-                </ul>
-              </section>
-            )}
-          {selected.gui_log_collection_steps && selected.gui_log_collection_steps.length > 0 && (
-            <section className="mt-6">
-              <div className="flex items-center justify-between">
-                <h3 className="text-base font-semibold text-gray-700">M365 GUI Log Collection</h3>
-                <button
-                  className="text-xs px-2 py-1 border rounded hover:bg-gray-100"
-                  onClick={() => copyLines(selected.gui_log_collection_steps!, "M365 GUI Log Collection")}
-                >
-                  Copy all
-                </button>
-              </div>
-              <ol className="mt-2 list-decimal list-inside text-base text-gray-700 space-y-1">
-                {selected.gui_log_collection_steps.map((s, i) => <li key={i}>{s}</li>)}
-              </ol>
-            </section>
-          )}
-
-          {/* Due Diligence Checks */}
-          {selected.due_diligence_checks && selected.due_diligence_checks.length > 0 && (
-            <section className="mt-6">
-              <div className="flex items-center justify-between">
-                <h3 className="text-base font-semibold text-gray-700">Due Diligence Checks</h3>
-                <button
-                  className="text-xs px-2 py-1 border rounded hover:bg-gray-100"
-                  onClick={() => copyLines(selected.due_diligence_checks!, "Due Diligence Checks")}
-                >
-                  Copy all
-                </button>
-              </div>
-              <ol className="mt-2 list-decimal list-inside text-base text-gray-700 space-y-1">
-                {selected.due_diligence_checks.map((s, i) => <li key={i}>{s}</li>)}
-              </ol>
-            </section>
-          )}
-
-          {/* Additional Checks */}
-          {selected.additional_checks && selected.additional_checks.length > 0 && (
-            <section className="mt-6">
-              <div className="flex items-center justify-between">
-                <h3 className="text-base font-semibold text-gray-700">Additional Checks</h3>
-                <button
-                  className="text-xs px-2 py-1 border rounded hover:bg-gray-100"
-                  onClick={() => copyLines(selected.additional_checks!, "Additional Checks")}
-                >
-                  Copy all
-                </button>
-              </div>
-              <ol className="mt-2 list-decimal list-inside text-base text-gray-700 space-y-1">
-                {selected.additional_checks.map((s, i) => <li key={i}>{s}</li>)}
-              </ol>
-            </section>
-          )}
-          {!selected.gui_log_collection_steps && selected.collection_steps && selected.collection_steps.length > 0 && (
-            <section className="mt-6">
-              <h3 className="text-base font-semibold text-gray-700">Collection Steps</h3>
-              <div className="mt-2 space-y-4">
-                {selected.collection_steps.map((grp, idx) => (
-                  <details key={idx} className="border rounded-xl p-3 bg-white" open={idx === 0}>
-                    <summary className="cursor-pointer text-base font-medium">{grp.category}</summary>
-                    <ol className="mt-2 list-decimal list-inside text-base text-gray-700 space-y-1">
-                      {grp.steps.map((s, i) => <li key={i}>{s}</li>)}
-                    </ol>
-                  </details>
-                ))}
-              </div>
-            </section>
-          )}
-          {selected.event_ids && selected.event_ids.length > 0 && (
-            <section className="mt-6">
-              <h3 className="text-base font-semibold text-gray-700">Event IDs</h3>
-              <div className="mt-2 space-y-3">
-                {selected.event_ids.map((g, idx) => (
-                  <div key={idx} className="border rounded-xl p-3">
-                    <div className="text-base">
-                      <span className="font-medium">Source:</span> {g.source}
-                    </div>
-                    <div className="mt-1 text-xs text-gray-600">
-                      <span className="font-medium">IDs:</span>{" "}
-                      <span className="font-mono">{g.ids.join(", ")}</span>
-                    </div>
-                    <div className="mt-1 text-base text-gray-700">{g.description}</div>
-                  </div>
-                ))}
-              </div>
-            </section>
-          )}
+            <ArtifactDetail artifact={selected} onClose={() => openArtifact(null)} onNavigate={openArtifact} />
           </aside>
         </div>
       )}
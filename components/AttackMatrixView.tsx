@@ -0,0 +1,178 @@
+"use client";
+import Link from "next/link";
+import React, { useMemo } from "react";
+import { useSearchParams } from "next/navigation";
+import SiteHeader from "@/components/SiteHeader";
+import { artifactHref } from "@/lib/artifacts";
+import { ATTACK, attackMatrix, attackUrl, getTechnique, techniqueLabel, type MatrixCell } from "@/lib/attack";
+import { PLATFORMS, platformLabel } from "@/lib/platforms";
+import type { Artifact, Platform } from "@/lib/schema";
+import { useCatalogue } from "@/lib/useCatalogue";
+import { classNames } from "@/lib/utils";
+
+type Show = "all" | "covered" | "gaps";
+const SHOW_LABEL: Record<Show, string> = { all: "All", covered: "Covered", gaps: "Gaps" };
+
+function heat(n: number): string {
+  if (n === 0) return "bg-white border-dashed text-gray-500";
+  if (n === 1) return "bg-gray-100";
+  if (n <= 3) return "bg-gray-300";
+  return "bg-gray-900 text-white border-gray-900";
+}
+
+export default function AttackMatrixView() {
+  const searchParams = useSearchParams();
+  const selectedId = searchParams.get("technique");
+  const show = (["covered", "gaps"] as const).find((s) => s === searchParams.get("show")) ?? "all";
+  // Same convention as the explorer: no param means every platform, an empty one means none.
+  const platforms = useMemo(
+    () => (searchParams.has("platforms") ? PLATFORMS.filter((p) => searchParams.getAll("platforms").includes(p)) : PLATFORMS),
+    [searchParams],
+  );
+
+  const { artifacts: catalogue } = useCatalogue();
+  const artifacts = useMemo(() => catalogue.filter((a) => platforms.includes(a.platform)), [catalogue, platforms]);
+  const columns = useMemo(() => attackMatrix(artifacts), [artifacts]);
+  const unmapped = artifacts.filter((a) => !a.attack?.techniques?.length);
+
+  const parents = ATTACK.techniques.filter((t) => !t.id.includes("."));
+  const coveredIds = new Set(columns.flatMap((c) => c.cells).filter((c) => c.artifacts.length > 0).map((c) => c.technique.id));
+
+  const selected = selectedId ? getTechnique(selectedId) : undefined;
+  const selectedCell = selected && columns.flatMap((c) => c.cells).find((c) => c.technique.id === (selected.parent ?? selected.id));
+
+  function navigate(patch: { technique?: string | null; show?: Show; platforms?: Platform[] }) {
+    const params = new URLSearchParams();
+    const technique = patch.technique === undefined ? selectedId : patch.technique;
+    if (technique) params.set("technique", technique);
+    const s = patch.show ?? show;
+    if (s !== "all") params.set("show", s);
+    const ps = patch.platforms ?? platforms;
+    if (ps.length !== PLATFORMS.length) (ps.length ? ps : [""]).forEach((p) => params.append("platforms", p));
+    const query = params.toString();
+    window.history.replaceState(null, "", window.location.pathname + (query ? `?${query}` : ""));
+  }
+  function togglePlatform(p: Platform) { navigate({ platforms: platforms.includes(p) ? platforms.filter((x) => x !== p) : PLATFORMS.filter((x) => x === p || platforms.includes(x)) }); }
+  const visible = (cell: MatrixCell) => show === "all" || (show === "covered") === (cell.artifacts.length > 0);
+
+  return (
+    <div className="min-h-screen">
+      <SiteHeader />
+      <main className="mx-auto max-w-[100rem] px-4 py-6 space-y-4">
+        <div className="flex flex-col gap-3 lg:flex-row lg:items-center lg:justify-between">
+          <div>
+            <h2 className="text-xl font-semibold">ATT&amp;CK coverage</h2>
+            <p className="text-sm text-gray-500">
+              {coveredIds.size} of {parents.length} techniques have evidence in {artifacts.length - unmapped.length} artifact{artifacts.length - unmapped.length !== 1 ? "s" : ""}
+              {" "}· {ATTACK.name} {ATTACK.version} (offline copy)
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            {PLATFORMS.map((p) => (
+              <button key={p} onClick={() => togglePlatform(p)} aria-pressed={platforms.includes(p)} className={classNames("px-3 py-1 rounded-full border text-sm", platforms.includes(p) ? "bg-gray-900 text-white border-gray-900" : "hover:bg-gray-100")}>
+                {platformLabel(p)}
+              </button>
+            ))}
+            <span className="mx-1 h-5 border-l" aria-hidden="true" />
+            {(Object.keys(SHOW_LABEL) as Show[]).map((s) => (
+              <button key={s} onClick={() => navigate({ show: s })} aria-pressed={show === s} className={classNames("px-3 py-1 rounded-full border text-sm", show === s ? "bg-gray-900 text-white border-gray-900" : "hover:bg-gray-100")}>
+                {SHOW_LABEL[s]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="overflow-x-auto pb-2">
+          <div className="flex gap-2 min-w-max">
+            {columns.map(({ tactic, cells }) => (
+              <section key={tactic.id} className="w-44 shrink-0">
+                <h3 className="px-1 text-sm font-semibold leading-tight">
+                  <a href={attackUrl(tactic.id)} target="_blank" rel="noreferrer" className="hover:underline">{tactic.name}</a>
+                </h3>
+                <p className="px-1 mb-2 text-xs text-gray-500">{tactic.id} · {cells.filter((c) => c.artifacts.length > 0).length}/{cells.length}</p>
+                <ul className="space-y-1">
+                  {cells.filter(visible).map((cell) => {
+                    const active = selectedCell?.technique.id === cell.technique.id;
+                    return (
+                      <li key={cell.technique.id}>
+                        <button
+                          onClick={() => navigate({ technique: active ? null : cell.technique.id })}
+                          className={classNames("w-full text-left rounded-lg border px-2 py-1 text-xs", heat(cell.artifacts.length), active && "ring-2 ring-amber-500")}
+                          aria-pressed={active}
+                          title={`${cell.technique.id} ${cell.technique.name}: ${cell.artifacts.length} artifact${cell.artifacts.length !== 1 ? "s" : ""}`}
+                        >
+                          <span className="flex items-start justify-between gap-1">
+                            <span className="font-medium">{cell.technique.name}</span>
+                            {cell.artifacts.length > 0 && <span className="tabular-nums font-semibold">{cell.artifacts.length}</span>}
+                          </span>
+                          <span className="block opacity-70">{cell.technique.id}{cell.subtechniques.length > 0 && ` · ${cell.subtechniques.filter((s) => s.artifacts.length > 0).length}/${cell.subtechniques.length} sub`}</span>
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </section>
+            ))}
+          </div>
+        </div>
+
+        {selectedCell && <TechniquePanel cell={selectedCell} selectedId={selectedId} onClose={() => navigate({ technique: null })} />}
+
+        {unmapped.length > 0 && (
+          <section>
+            <h2 className="text-base font-semibold uppercase tracking-wider text-gray-500">Not mapped to ATT&amp;CK</h2>
+            <ul className="mt-2 flex flex-wrap gap-2 text-sm">
+              {unmapped.map((a) => (<li key={a.id}><Link href={artifactHref(a.slug)} className="rounded-lg border px-2 py-1 hover:bg-gray-100 inline-block">{a.name}</Link></li>))}
+            </ul>
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
+
+function ArtifactLinks({ artifacts }: { artifacts: Artifact[] }) {
+  if (artifacts.length === 0) return <p className="text-sm text-gray-400">No documented artifact.</p>;
+  return (
+    <ul className="flex flex-wrap gap-2">
+      {artifacts.map((a) => (
+        <li key={a.id}>
+          <Link href={artifactHref(a.slug)} className="rounded-lg border px-2 py-1 text-sm hover:bg-gray-100 inline-block">
+            {a.name} <span className="text-xs text-gray-500">({platformLabel(a.platform)})</span>
+          </Link>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function TechniquePanel({ cell, selectedId, onClose }: { cell: MatrixCell; selectedId: string | null; onClose: () => void }) {
+  const { technique, subtechniques } = cell;
+  const direct = cell.artifacts.filter((a) => a.attack?.techniques?.includes(technique.id));
+  return (
+    <section className="bg-white rounded-2xl border p-4 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold">{technique.id} {technique.name}</h2>
+          <p className="text-sm text-gray-500">
+            {cell.artifacts.length} artifact{cell.artifacts.length !== 1 ? "s" : ""} ·{" "}
+            <a href={attackUrl(technique.id)} target="_blank" rel="noreferrer" className="underline">attack.mitre.org</a>
+          </p>
+        </div>
+        <button onClick={onClose} className="rounded-lg border px-2 py-1 hover:bg-gray-100" aria-label="Close technique">Close</button>
+      </div>
+      <div>
+        <h3 className="text-sm font-semibold text-gray-700 mb-1">{technique.name}{subtechniques.length > 0 && " (technique level)"}</h3>
+        <ArtifactLinks artifacts={direct} />
+      </div>
+      {subtechniques.map((s) => (
+        <div key={s.technique.id} className={classNames(s.technique.id === selectedId && "rounded-lg bg-amber-50 -mx-2 px-2 py-1")}>
+          <h3 className="text-sm font-semibold text-gray-700 mb-1">
+            <a href={attackUrl(s.technique.id)} target="_blank" rel="noreferrer" className="hover:underline">{s.technique.id}</a> {techniqueLabel(s.technique.id)}
+          </h3>
+          <ArtifactLinks artifacts={s.artifacts} />
+        </div>
+      ))}
+    </section>
+  );
+}
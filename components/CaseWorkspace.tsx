@@ -0,0 +1,191 @@
+"use client";
+import Link from "next/link";
+import React, { useRef, useState } from "react";
+import CommandPanel from "@/components/CommandPanel";
+import ProgressBar from "@/components/ProgressBar";
+import SiteHeader from "@/components/SiteHeader";
+import StorageNotice from "@/components/StorageNotice";
+import { artifactHref } from "@/lib/artifacts";
+import { downloadText, fileSafe } from "@/lib/download";
+import { artifactProgress, caseProgress, checklistFor, exportCases, parseCasesFile, type Case, type ChecklistItem } from "@/lib/cases";
+import { playbookHref } from "@/lib/playbook";
+import type { Artifact } from "@/lib/schema";
+import { useCases } from "@/lib/useCases";
+import { useCatalogue } from "@/lib/useCatalogue";
+import { useCommandVariables } from "@/lib/useCommandVariables";
+import { classNames } from "@/lib/utils";
+
+function formatTime(iso?: string) { return iso ? new Date(iso).toLocaleString() : ""; }
+
+function groupBySection(items: ChecklistItem[]): Array<[string, ChecklistItem[]]> {
+  const groups = new Map<string, ChecklistItem[]>();
+  items.forEach((i) => groups.set(i.section, [...(groups.get(i.section) ?? []), i]));
+  return Array.from(groups.entries());
+}
+
+export default function CaseWorkspace() {
+  const { cases, activeId, setActiveId, createCase, deleteCase, renameCase, addArtifact, removeArtifact, setStep, importCases, storage } = useCases();
+  const { artifacts: catalogue } = useCatalogue();
+  const [newName, setNewName] = useState("");
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const active = cases.find((c) => c.id === activeId) ?? null;
+
+  async function onImport(file: File) {
+    try {
+      const imported = parseCasesFile(await file.text());
+      importCases(imported);
+      if (imported[0]) setActiveId(imported[0].id);
+      setImportError(null);
+    } catch (err) {
+      setImportError((err as Error).message);
+    }
+  }
+
+  return (
+    <div className="min-h-screen">
+      <SiteHeader />
+      <main className="mx-auto max-w-7xl px-4 py-6 grid grid-cols-1 md:grid-cols-12 gap-6">
+        <aside className="md:col-span-3 space-y-6">
+          <StorageNotice problem={storage} what="cases" />
+          <section>
+            <h2 className="text-base font-semibold uppercase tracking-wider text-gray-500">Cases</h2>
+            <form className="mt-2 flex gap-2" onSubmit={(e) => { e.preventDefault(); if (newName.trim()) { createCase(newName); setNewName(""); } }}>
+              <label className="sr-only" htmlFor="new-case">New case name</label>
+              <input id="new-case" className="flex-1 min-w-0 rounded-xl border px-3 py-1.5" placeholder="New case name…" value={newName} onChange={(e) => setNewName(e.target.value)} />
+              <button type="submit" className="rounded-xl border px-3 py-1.5 hover:bg-gray-100">Create</button>
+            </form>
+            <ul className="mt-3 space-y-2">
+              {cases.map((c) => (
+                <li key={c.id}>
+                  <button onClick={() => setActiveId(c.id)} className={classNames("w-full text-left rounded-xl border p-3 space-y-1", c.id === activeId ? "border-gray-900 bg-white" : "hover:bg-gray-100")}>
+                    <div className="font-medium">{c.name}</div>
+                    <div className="text-xs text-gray-500">{c.artifacts.length} artifact{c.artifacts.length !== 1 ? "s" : ""} · updated {formatTime(c.updatedAt)}</div>
+                    <ProgressBar progress={caseProgress(c, catalogue)} label={`${c.name} progress`} />
+                  </button>
+                </li>
+              ))}
+              {cases.length === 0 && <li className="text-sm text-gray-500">No cases yet. Cases are stored in this browser only.</li>}
+            </ul>
+          </section>
+          <section className="space-y-2">
+            <h2 className="text-base font-semibold uppercase tracking-wider text-gray-500">Handover</h2>
+            <div className="flex flex-wrap gap-2">
+              <button onClick={() => fileInput.current?.click()} className="rounded-xl border px-3 py-1.5 hover:bg-gray-100">Import JSON…</button>
+              {cases.length > 0 && <button onClick={() => downloadText("dfir-cases.json", exportCases(cases), "application/json")} className="rounded-xl border px-3 py-1.5 hover:bg-gray-100">Export all</button>}
+            </div>
+            <input ref={fileInput} type="file" accept="application/json,.json" className="hidden" onChange={(e) => { const f = e.target.files?.[0]; if (f) onImport(f); e.target.value = ""; }} />
+            {importError && <p className="text-sm text-red-700">{importError}</p>}
+          </section>
+        </aside>
+
+        <section className="md:col-span-9">
+          {active ? (
+            <CaseDetail
+              key={active.id}
+              c={active}
+              onRename={(name) => renameCase(active.id, name)}
+              onDelete={() => { if (confirm(`Delete case "${active.name}"? This cannot be undone.`)) deleteCase(active.id); }}
+              onExport={() => downloadText(`${fileSafe(active.name)}.case.json`, exportCases([active]), "application/json")}
+              onAdd={(artifactId) => addArtifact(active.id, artifactId)}
+              onRemove={(artifactId) => removeArtifact(active.id, artifactId)}
+              onStep={(artifactId, key, patch) => setStep(active.id, artifactId, key, patch)}
+            />
+          ) : (
+            <p className="text-base text-gray-500">Create or select a case to track collection steps and checks. Add artifacts here or from any artifact&apos;s detail view.</p>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
+
+type CaseDetailProps = {
+  c: Case;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+  onExport: () => void;
+  onAdd: (artifactId: string) => void;
+  onRemove: (artifactId: string) => void;
+  onStep: (artifactId: string, key: string, patch: { done?: boolean; note?: string }) => void;
+};
+
+function CaseDetail({ c, onRename, onDelete, onExport, onAdd, onRemove, onStep }: CaseDetailProps) {
+  const { artifacts: catalogue } = useCatalogue();
+  const artifacts = c.artifacts.map((id) => catalogue.find((a) => a.id === id)).filter((a): a is Artifact => a !== undefined);
+  const missing = c.artifacts.filter((id) => !catalogue.some((a) => a.id === id));
+  const { values, setValue, reset } = useCommandVariables();
+  return (
+    <div className="space-y-4">
+      <div className="bg-white rounded-2xl border p-4 space-y-3">
+        <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+          <label className="sr-only" htmlFor="case-name">Case name</label>
+          <input id="case-name" className="text-xl font-semibold rounded-lg border border-transparent hover:border-gray-200 px-1 -mx-1" defaultValue={c.name} onBlur={(e) => e.target.value.trim() && e.target.value !== c.name && onRename(e.target.value.trim())} />
+          <div className="flex gap-2">
+            <Link href={playbookHref(artifacts.map((a) => a.slug), c.name)} className="rounded-xl border px-3 py-1.5 hover:bg-gray-100">Playbook</Link>
+            <button onClick={onExport} className="rounded-xl border px-3 py-1.5 hover:bg-gray-100">Export case</button>
+            <button onClick={onDelete} className="rounded-xl border px-3 py-1.5 hover:bg-red-50 text-red-700">Delete</button>
+          </div>
+        </div>
+        <ProgressBar progress={caseProgress(c, catalogue)} label="Case progress" />
+        <div className="flex items-center gap-2">
+          <label className="sr-only" htmlFor="case-add">Add artifact</label>
+          <select id="case-add" className="rounded-xl border px-3 py-1.5 bg-white" value="" onChange={(e) => e.target.value && onAdd(e.target.value)}>
+            <option value="">Add artifact…</option>
+            {catalogue.filter((a) => !c.artifacts.includes(a.id)).map((a) => (<option key={a.id} value={a.id}>{a.name}</option>))}
+          </select>
+        </div>
+        {missing.length > 0 && <p className="text-xs text-amber-700">Not in this catalogue (kept in the case file): {missing.join(", ")}</p>}
+      </div>
+
+      <CommandPanel artifacts={artifacts} values={values} onChange={setValue} onReset={reset} title={c.name} listCommands />
+
+      {artifacts.map((a) => (
+        <article key={a.id} className="bg-white rounded-2xl border p-4">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <Link href={artifactHref(a.slug)} className="text-lg font-semibold hover:underline">{a.name}</Link>
+              <p className="text-sm text-gray-600">{a.summary}</p>
+            </div>
+            <button onClick={() => onRemove(a.id)} className="text-xs text-gray-500 hover:text-gray-900" aria-label={`Remove ${a.name} from case`}>Remove</button>
+          </div>
+          <div className="mt-2"><ProgressBar progress={artifactProgress(c, a)} label={`${a.name} progress`} /></div>
+          <div className="mt-3 space-y-3">
+            {groupBySection(checklistFor(a)).map(([section, items]) => (
+              <div key={section}>
+                <h4 className="text-xs font-semibold uppercase tracking-wider text-gray-500">{section}</h4>
+                <ul className="mt-1 divide-y border rounded-xl">
+                  {items.map((item) => {
+                    const state = c.progress[a.id]?.[item.key];
+                    return (
+                      <li key={item.key} className="p-2 text-sm">
+                        <label className="flex items-start gap-2">
+                          <input type="checkbox" className="mt-1" checked={state?.done ?? false} onChange={(e) => onStep(a.id, item.key, { done: e.target.checked })} />
+                          <span className={classNames(state?.done && "text-gray-500 line-through")}>{item.text}</span>
+                        </label>
+                        <div className="ml-6 mt-1 flex flex-col gap-1 md:flex-row md:items-center">
+                          <input
+                            key={state?.noteAt ?? "empty"} // re-read the note when it changes elsewhere (import, other tab)
+                            className="flex-1 rounded-lg border px-2 py-1 text-xs"
+                            placeholder="Analyst note…"
+                            aria-label={`Note for ${item.text}`}
+                            defaultValue={state?.note ?? ""}
+                            onBlur={(e) => e.target.value !== (state?.note ?? "") && onStep(a.id, item.key, { note: e.target.value })}
+                          />
+                          <span className="text-[11px] text-gray-500 md:w-56 md:text-right">
+                            {state?.doneAt && <>Done {formatTime(state.doneAt)}</>}
+                            {state?.noteAt && <>{state?.doneAt ? " · " : ""}Note {formatTime(state.noteAt)}</>}
+                          </span>
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            ))}
+          </div>
+        </article>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+"use client";
+import React, { useMemo } from "react";
+import RenderedCommand from "@/components/RenderedCommand";
+import { COMMAND_VARIABLES } from "@/lib/artifacts";
+import { COMMAND_TARGETS, buildScript, validateValue, variablesUsedBy, type CommandTarget, type CommandValues } from "@/lib/commands";
+import { downloadText, fileSafe } from "@/lib/download";
+import type { Artifact } from "@/lib/schema";
+import { classNames } from "@/lib/utils";
+
+type Props = {
+  artifacts: Artifact[];
+  values: CommandValues;
+  onChange: (name: string, value: string) => void;
+  onReset: () => void;
+  title: string;              // used for the script header and file name
+  listCommands?: boolean;     // also list every rendered command (views that do not show parsers themselves)
+};
+
+/** Variables used by the artifacts' commands, plus a combined script download for all of them. */
+export default function CommandPanel({ artifacts, values, onChange, onReset, title, listCommands }: Props) {
+  const parsers = useMemo(() => artifacts.flatMap((a) => a.parsers ?? []).filter((p) => p.command_example), [artifacts]);
+  const variables = variablesUsedBy(parsers, values, COMMAND_VARIABLES);
+  if (parsers.length === 0) return null;
+
+  const setCount = variables.filter((v) => values[v.name]).length;
+  function download(target: CommandTarget) {
+    downloadText(`${fileSafe(title, "commands")}.${target}`, buildScript(target, artifacts, values, COMMAND_VARIABLES, { title }));
+  }
+
+  return (
+    <details className="border rounded-xl p-3 bg-white print:hidden">
+      <summary className="cursor-pointer text-base font-medium">{listCommands ? "Commands" : "Command variables"}{setCount > 0 && <span className="ml-2 text-xs text-gray-500">{setCount} set</span>}</summary>
+      <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {variables.map((v) => {
+          const error = validateValue(v, values[v.name] ?? "");
+          const id = `var-${v.name}`;
+          return (
+            <div key={v.name}>
+              <label htmlFor={id} className="block text-xs font-medium text-gray-600">{v.label} <span className="font-mono text-gray-400">{`{${v.name}}`}</span></label>
+              <input
+                id={id}
+                className={classNames("mt-1 w-full rounded-lg border px-2 py-1 text-sm font-mono", error !== null && "border-red-400")}
+                placeholder={v.default ?? (v.type === "date" ? "YYYY-MM-DD" : "per command")}
+                value={values[v.name] ?? ""}
+                onChange={(e) => onChange(v.name, e.target.value)}
+                aria-invalid={error !== null}
+                aria-describedby={`${id}-hint`}
+              />
+              <p id={`${id}-hint`} className={classNames("mt-0.5 text-[11px]", error ? "text-red-600" : "text-gray-500")}>{error ?? v.description}</p>
+            </div>
+          );
+        })}
+      </div>
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        {COMMAND_TARGETS.map((t) => (
+          <button key={t} onClick={() => download(t)} className="rounded-lg border px-2 py-1 text-sm hover:bg-gray-100">.{t}</button>
+        ))}
+        <button onClick={onReset} disabled={setCount === 0} className="text-sm text-gray-500 underline disabled:opacity-50">Reset to defaults</button>
+        <span className="text-xs text-gray-500">Scripts cover all {parsers.length} command{parsers.length !== 1 ? "s" : ""}; queries and PowerShell-only cmdlets are included as comments where they cannot run.</span>
+      </div>
+      {listCommands && (
+        <div className="mt-4 space-y-3">
+          {artifacts.filter((a) => a.parsers?.some((p) => p.command_example)).map((a) => (
+            <div key={a.id}>
+              <h4 className="text-sm font-semibold text-gray-700">{a.name}</h4>
+              <ul className="mt-1 space-y-2">
+                {a.parsers!.filter((p) => p.command_example).map((p, i) => (
+                  <li key={i}>
+                    <div className="text-xs text-gray-600">{p.tool_name}</div>
+                    <RenderedCommand parser={p} values={values} />
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </details>
+  );
+}
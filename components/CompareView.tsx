@@ -0,0 +1,102 @@
+"use client";
+import Link from "next/link";
+import React, { useMemo } from "react";
+import { useSearchParams } from "next/navigation";
+import CommandPanel from "@/components/CommandPanel";
+import SiteHeader from "@/components/SiteHeader";
+import { artifactHref, getArtifactsBySlugs } from "@/lib/artifacts";
+import { COMPARE_ROWS, compareRow } from "@/lib/compare";
+import { playbookHref } from "@/lib/playbook";
+import { useCatalogue } from "@/lib/useCatalogue";
+import { useCommandVariables } from "@/lib/useCommandVariables";
+import { artifactListQuery } from "@/lib/urlState";
+import { classNames } from "@/lib/utils";
+
+export default function CompareView() {
+  const searchParams = useSearchParams();
+  const { artifacts: catalogue } = useCatalogue();
+  const artifacts = useMemo(() => getArtifactsBySlugs(searchParams.getAll("artifact"), catalogue), [searchParams, catalogue]);
+  const slugs = artifacts.map((a) => a.slug);
+  const { values, setValue, reset } = useCommandVariables();
+
+  // pathname already carries the GitHub Pages basePath; Next.js picks up native history updates.
+  function setSlugs(next: string[]) { window.history.pushState(null, "", window.location.pathname + artifactListQuery(next)); }
+
+  return (
+    <div className="min-h-screen">
+      <SiteHeader actions={
+        <>
+          <Link href={playbookHref(slugs)} className="rounded-xl border px-3 py-2 hover:bg-gray-100">Playbook</Link>
+          <button onClick={() => window.print()} className="rounded-xl border px-3 py-2 hover:bg-gray-100">Print</button>
+        </>
+      } />
+      <main className="mx-auto max-w-7xl px-4 py-6 print:max-w-none print:p-0">
+        <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between mb-4">
+          <h2 className="text-xl font-semibold">Compare {artifacts.length} artifact{artifacts.length !== 1 ? "s" : ""}</h2>
+          <div className="flex items-center gap-2 print:hidden">
+            <label className="sr-only" htmlFor="compare-add">Add artifact</label>
+            <select id="compare-add" className="rounded-xl border px-3 py-2 bg-white" value="" onChange={(e) => e.target.value && setSlugs([...slugs, e.target.value])}>
+              <option value="">Add artifact…</option>
+              {catalogue.filter((a) => !slugs.includes(a.slug)).map((a) => (<option key={a.id} value={a.slug}>{a.name}</option>))}
+            </select>
+          </div>
+        </div>
+
+        {artifacts.length < 2 ? (
+          <p className="text-base text-gray-500">Pick at least two artifacts in the <Link className="underline" href="/">explorer</Link> (or add them above) to compare them.</p>
+        ) : (
+          <div className="overflow-x-auto bg-white rounded-2xl border print:border-0 print:overflow-visible">
+            <table className="w-full text-sm border-collapse print:text-xs">
+              <thead>
+                <tr className="border-b align-top">
+                  <th className="p-3 text-left text-xs font-semibold uppercase tracking-wider text-gray-500 w-40">Field</th>
+                  {artifacts.map((a) => (
+                    <th key={a.id} className="p-3 text-left">
+                      <div className="flex items-start justify-between gap-2">
+                        <Link href={artifactHref(a.slug)} className="text-base font-semibold hover:underline">{a.name}</Link>
+                        <button onClick={() => setSlugs(slugs.filter((s) => s !== a.slug))} className="text-xs text-gray-500 hover:text-gray-900 print:hidden" aria-label={`Remove ${a.name}`}>✕</button>
+                      </div>
+                      <p className="mt-1 text-xs font-normal text-gray-600">{a.summary}</p>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {COMPARE_ROWS.map((row) => {
+                  const { cells, differs } = compareRow(row, artifacts);
+                  return (
+                    <tr key={row.key} className="border-b align-top break-inside-avoid">
+                      <th className="p-3 text-left text-xs font-semibold text-gray-600">
+                        {row.label}
+                        {differs && <span className="ml-1 text-amber-700" title="Values differ between artifacts">≠</span>}
+                      </th>
+                      {cells.map((cell, i) => (
+                        <td key={artifacts[i].id} className="p-3">
+                          {cell.length === 0 ? (
+                            <span className="text-xs text-gray-400">—</span>
+                          ) : (
+                            <ul className="space-y-1">
+                              {cell.map((v, j) => (
+                                <li key={j} className={classNames("rounded px-2 py-0.5 break-all", row.mono && "font-mono text-xs", differs && !v.shared ? "bg-amber-50 border border-amber-200 print:border-amber-400" : "bg-gray-50 border")}>
+                                  {v.text}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+        <p className="mt-3 text-xs text-gray-500 print:hidden">Highlighted values are not shared by every compared artifact. The URL captures this comparison, so it can be shared as-is.</p>
+        {artifacts.length >= 2 && (
+          <div className="mt-6"><CommandPanel artifacts={artifacts} values={values} onChange={setValue} onReset={reset} title={`Compare ${artifacts.map((a) => a.name).join(" vs ")}`} listCommands /></div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+"use client";
+import Link from "next/link";
+import React, { useMemo, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import LocalBadge from "@/components/LocalBadge";
+import SiteHeader from "@/components/SiteHeader";
+import { artifactHref } from "@/lib/artifacts";
+import { columnMappingFile, columnMappings, crosswalk, crosswalkHref, TIMELINE_FIELDS } from "@/lib/crosswalk";
+import { downloadText } from "@/lib/download";
+import { useCatalogue } from "@/lib/useCatalogue";
+import { classNames } from "@/lib/utils";
+
+export default function CrosswalkView() {
+  const searchParams = useSearchParams();
+  const field = searchParams.get("field") ?? "";
+  // Kept locally so typing is not interrupted by URL round-trips.
+  const [text, setText] = useState(searchParams.get("q") ?? "");
+  const [mappedOnly, setMappedOnly] = useState(false);
+
+  function navigate(patch: { q?: string; field?: string }) {
+    const params = new URLSearchParams();
+    const q = patch.q ?? text;
+    const f = patch.field ?? field;
+    if (q.trim()) params.set("q", q);
+    if (f) params.set("field", f);
+    const query = params.toString();
+    window.history.replaceState(null, "", window.location.pathname + (query ? `?${query}` : ""));
+  }
+  function changeText(q: string) { setText(q); navigate({ q }); }
+
+  const { artifacts, localKind } = useCatalogue();
+  const rows = useMemo(() => crosswalk(artifacts), [artifacts]);
+  const mappings = useMemo(() => columnMappings(artifacts), [artifacts]);
+  const provided = rows.filter((r) => r.sources.length > 0).length;
+
+  const needle = text.trim().toLowerCase();
+  const shown = rows.filter((r) => {
+    if (field) return r.field.id === field;
+    if (mappedOnly && r.sources.length === 0) return false;
+    if (!needle) return true;
+    return [r.field.id, r.field.label, r.field.description, ...r.sources.flatMap((s) => [s.artifact.name, s.tool, s.column])].some((v) => v.toLowerCase().includes(needle));
+  });
+
+  return (
+    <div className="min-h-screen">
+      <SiteHeader />
+      <main className="mx-auto max-w-7xl px-4 py-6 grid grid-cols-1 md:grid-cols-12 gap-6">
+        <aside className="md:col-span-4 space-y-6">
+          <section className="space-y-2">
+            <h2 className="text-base font-semibold uppercase tracking-wider text-gray-500">Fields</h2>
+            <label className="sr-only" htmlFor="crosswalk-search">Search fields, tools and columns</label>
+            <input id="crosswalk-search" className="w-full rounded-xl border px-3 py-1.5" placeholder="sha1, PECmd, FullPath…" value={text} onChange={(e) => changeText(e.target.value)} />
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              <input type="checkbox" checked={mappedOnly} onChange={(e) => setMappedOnly(e.target.checked)} />
+              Only fields some tool provides
+            </label>
+            <p className="text-base"><span className="font-semibold">{provided}</span> of {TIMELINE_FIELDS.length} fields provided by at least one column</p>
+          </section>
+          <section className="space-y-2">
+            <h2 className="text-base font-semibold uppercase tracking-wider text-gray-500">Column mappings</h2>
+            <p className="text-sm text-gray-600">
+              One file per parser: which CSV columns hold which field, and which of them are timestamps. <span className="font-mono">npm run merge-timeline</span> uses
+              them to merge the tools&apos; CSV output into one super-timeline.
+            </p>
+            <button disabled={mappings.length === 0} onClick={() => downloadText("column-mappings.json", columnMappingFile(mappings), "application/json")} className="rounded-xl border px-3 py-1.5 hover:bg-gray-100 disabled:opacity-50">
+              Download all ({mappings.length})
+            </button>
+            <ul className="text-sm space-y-1">
+              {mappings.map((m) => (
+                <li key={`${m.artifact}:${m.tool}`}>
+                  <span className="font-medium">{m.tool}</span> <span className="text-gray-500">— {m.name}, {Object.keys(m.columns).length} column{Object.keys(m.columns).length !== 1 ? "s" : ""}</span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        </aside>
+
+        <section className="md:col-span-8">
+          <div className="flex items-center justify-between mb-3">
+            <p className="text-base text-gray-500">{field ? <>Field <span className="font-mono">{field}</span></> : `${shown.length} of ${rows.length} fields`}</p>
+            {field && <button onClick={() => navigate({ field: "" })} className="rounded-lg border px-2 py-1 text-sm hover:bg-gray-100">Show all fields</button>}
+          </div>
+          {shown.length === 0 ? (
+            <p className="text-base text-gray-500">{field ? "This field is not in data/timeline-fields.json." : "No field matches."}</p>
+          ) : (
+            <div className="space-y-3">
+              {shown.map(({ field: f, sources }) => (
+                <div key={f.id} className="bg-white rounded-2xl border p-4 space-y-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Link href={crosswalkHref(f.id)} className="font-mono text-lg font-semibold hover:underline">{f.id}</Link>
+                    <span className="text-base font-medium">{f.label}</span>
+                    <span className="text-xs px-2 py-0.5 rounded-full border text-gray-600">{f.type}</span>
+                    <span className={classNames("text-xs px-2 py-0.5 rounded-full border", f.ecs ? "text-gray-600" : "border-amber-300 bg-amber-50 text-amber-900")} title={f.ecs ? "Elastic Common Schema field" : "Not in the Elastic Common Schema; defined by this project"}>
+                      {f.ecs ? "ECS" : "Extension"}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-600">{f.description}</p>
+                  {sources.length === 0 ? (
+                    <p className="text-sm text-gray-500">No parser maps a column to this field yet.</p>
+                  ) : (
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-500">
+                          <th className="py-1 pr-3 font-medium">Artifact</th>
+                          <th className="py-1 pr-3 font-medium">Tool</th>
+                          <th className="py-1 pr-3 font-medium">Column</th>
+                          <th className="py-1 font-medium">Notes</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y">
+                        {sources.map((s, i) => (
+                          <tr key={i} className="align-top">
+                            <td className="py-1 pr-3">
+                              <Link href={artifactHref(s.artifact.slug)} className="underline">{s.artifact.name}</Link> <LocalBadge kind={localKind(s.artifact.id)} />
+                            </td>
+                            <td className="py-1 pr-3">{s.tool}</td>
+                            <td className="py-1 pr-3 font-mono break-all">{s.column}</td>
+                            <td className="py-1 text-gray-600">{s.description}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
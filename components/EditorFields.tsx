@@ -0,0 +1,142 @@
+"use client";
+import React, { useId, useState } from "react";
+import type { FieldIssue } from "@/lib/editor";
+import type { OutputField } from "@/lib/schema";
+import { classNames } from "@/lib/utils";
+
+/** Small form controls for the artifact editor; every input is controlled by the draft. */
+
+export const INPUT = "w-full rounded-xl border px-3 py-1.5";
+
+export function Field({ label, issues = [], hint, children }: { label: string; issues?: FieldIssue[]; hint?: string; children: (id: string) => React.ReactNode }) {
+  const id = useId();
+  return (
+    <div className="space-y-1">
+      <label htmlFor={id} className="block text-sm text-gray-600">{label}</label>
+      {children(id)}
+      {hint && <p className="text-xs text-gray-500">{hint}</p>}
+      {issues.map((i, n) => (<p key={n} className="text-xs text-red-600">{i.message}</p>))}
+    </div>
+  );
+}
+
+/** One entry per line; blank lines are kept while typing and dropped from the output. */
+export function LinesInput({ id, value, onChange, rows = 3, placeholder, mono }: { id?: string; value: string[] | undefined; onChange: (v: string[]) => void; rows?: number; placeholder?: string; mono?: boolean }) {
+  return <textarea id={id} rows={rows} className={classNames(INPUT, mono && "font-mono text-sm")} placeholder={placeholder} value={(value ?? []).join("\n")} onChange={(e) => onChange(e.target.value.split("\n"))} />;
+}
+
+/** Comma-separated values, e.g. event IDs. */
+export function ListInput({ id, value, onChange, placeholder }: { id?: string; value: string[] | undefined; onChange: (v: string[]) => void; placeholder?: string }) {
+  return <input id={id} className={classNames(INPUT, "font-mono text-sm")} placeholder={placeholder} value={(value ?? []).join(", ")} onChange={(e) => onChange(e.target.value.split(",").map((s) => s.trim()))} />;
+}
+
+/** `key = value` per line for string maps (variables, titles, output fields). */
+export function PairsInput({ id, value, onChange, placeholder }: { id?: string; value: Record<string, string> | undefined; onChange: (v: Record<string, string>) => void; placeholder?: string }) {
+  // Kept locally: a half-typed line without "=" is not a pair yet, but must not vanish.
+  const [text, setText] = useState(() => Object.entries(value ?? {}).map(([k, v]) => `${k} = ${v}`).join("\n"));
+  function change(next: string) {
+    setText(next);
+    const pairs = next.split("\n").flatMap((line) => {
+      const at = line.indexOf("=");
+      return at > 0 && line.slice(0, at).trim() ? [[line.slice(0, at).trim(), line.slice(at + 1).trim()] as const] : [];
+    });
+    onChange(Object.fromEntries(pairs));
+  }
+  return <textarea id={id} rows={Math.max(2, text.split("\n").length)} className={classNames(INPUT, "font-mono text-sm")} placeholder={placeholder} value={text} onChange={(e) => change(e.target.value)} />;
+}
+
+type OutputRow = { column: string; field: string; description: string };
+
+/**
+ * Parser output columns, each with an optional timeline field (from the `fieldList` datalist)
+ * and description. Rows are kept locally like PairsInput's text: one without a column name is
+ * not written out yet, but must not vanish.
+ */
+export function OutputFieldsInput({ value, onChange, fieldList }: { value: Record<string, OutputField> | undefined; onChange: (v: Record<string, OutputField>) => void; fieldList: string }) {
+  const [rows, setRows] = useState<OutputRow[]>(() => Object.entries(value ?? {}).map(([column, v]) => (
+    typeof v === "string" ? { column, field: "", description: v } : { column, field: v.field, description: v.description ?? "" }
+  )));
+  function change(next: OutputRow[]) {
+    setRows(next);
+    onChange(Object.fromEntries(next.filter((r) => r.column.trim()).map((r): [string, OutputField] => {
+      const field = r.field.trim();
+      const description = r.description.trim();
+      return [r.column.trim(), field ? { field, ...(description && { description }) } : description];
+    })));
+  }
+  const update = (i: number, patch: Partial<OutputRow>) => change(rows.map((r, j) => (j === i ? { ...r, ...patch } : r)));
+  return (
+    <div className="space-y-2">
+      {rows.map((r, i) => (
+        <div key={i} className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_2fr_auto] gap-2">
+          <input aria-label="Column" className={classNames(INPUT, "font-mono text-sm")} placeholder="Column" value={r.column} onChange={(e) => update(i, { column: e.target.value })} />
+          <input aria-label="Timeline field" list={fieldList} className={classNames(INPUT, "font-mono text-sm")} placeholder="Timeline field" value={r.field} onChange={(e) => update(i, { field: e.target.value })} />
+          <input aria-label="Description" className={INPUT} placeholder="Description" value={r.description} onChange={(e) => update(i, { description: e.target.value })} />
+          <button type="button" onClick={() => change(rows.filter((_, j) => j !== i))} className="rounded-lg border px-2 py-1 text-xs hover:bg-gray-100" aria-label={`Remove ${r.column || "column"}`}>Remove</button>
+        </div>
+      ))}
+      <button type="button" onClick={() => change([...rows, { column: "", field: "", description: "" }])} className="rounded-xl border px-3 py-1.5 text-sm hover:bg-gray-100">+ Output column</button>
+    </div>
+  );
+}
+
+export function Options({ id, values }: { id: string; values: string[] }) {
+  return <datalist id={id}>{values.map((v) => (<option key={v} value={v} />))}</datalist>;
+}
+
+/** Toggle chips for a multi-select; values not among `options` (older or hand-typed ones) are shown too. */
+export function Chips({ options, value, onChange, label = (v) => v }: { options: string[]; value: string[] | undefined; onChange: (v: string[]) => void; label?: (v: string) => string }) {
+  const selected = value ?? [];
+  const all = [...options, ...selected.filter((v) => !options.includes(v))];
+  return (
+    <div className="flex flex-wrap gap-2">
+      {all.map((v) => {
+        const on = selected.includes(v);
+        return (
+          <button type="button" key={v} aria-pressed={on} onClick={() => onChange(on ? selected.filter((s) => s !== v) : [...selected, v])} className={classNames("px-3 py-1 rounded-full border text-sm", on ? "bg-gray-900 text-white border-gray-900" : "hover:bg-gray-100")}>
+            {label(v)}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+let nextRowKey = 0;
+
+/** Repeatable sub-rows (locations, parsers, …) with add, remove and reorder. */
+export function Rows<T>({ items, onChange, blank, addLabel, render }: {
+  items: T[] | undefined;
+  onChange: (items: T[]) => void;
+  blank: () => T;
+  addLabel: string;
+  render: (item: T, update: (patch: Partial<T>) => void, index: number) => React.ReactNode;
+}) {
+  const rows = items ?? [];
+  // Stable keys, so inputs with local state (PairsInput) follow their row when rows move or go.
+  const [keys, setKeys] = useState(() => rows.map(() => nextRowKey++));
+  const rowKeys = keys.length === rows.length ? keys : rows.map((_, i) => -1 - i);
+  function change(next: T[], nextKeys: number[]) { setKeys(nextKeys); onChange(next); }
+  function move(from: number, to: number) {
+    const next = [...rows];
+    const nextKeys = [...rowKeys];
+    next.splice(to, 0, next.splice(from, 1)[0]);
+    nextKeys.splice(to, 0, nextKeys.splice(from, 1)[0]);
+    change(next, nextKeys);
+  }
+  return (
+    <div className="space-y-2">
+      {rows.map((item, i) => (
+        <div key={rowKeys[i]} className="rounded-xl border p-3 space-y-2">
+          {render(item, (patch) => onChange(rows.map((r, j) => (j === i ? { ...r, ...patch } : r))), i)}
+          <div className="flex justify-end gap-2 text-xs">
+            <button type="button" disabled={i === 0} onClick={() => move(i, i - 1)} className="rounded-lg border px-2 py-1 hover:bg-gray-100 disabled:opacity-50" aria-label="Move up">↑</button>
+            <button type="button" disabled={i === rows.length - 1} onClick={() => move(i, i + 1)} className="rounded-lg border px-2 py-1 hover:bg-gray-100 disabled:opacity-50" aria-label="Move down">↓</button>
+            <button type="button" onClick={() => change(rows.filter((_, j) => j !== i), rowKeys.filter((_, j) => j !== i))} className="rounded-lg border px-2 py-1 hover:bg-gray-100">Remove</button>
+          </div>
+        </div>
+      ))}
+      <button type="button" onClick={() => change([...rows, blank()], [...rowKeys, nextRowKey++])} className="rounded-xl border px-3 py-1.5 text-sm hover:bg-gray-100">+ {addLabel}</button>
+    </div>
+  );
+}
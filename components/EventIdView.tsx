@@ -0,0 +1,120 @@
+"use client";
+import Link from "next/link";
+import React, { useMemo, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import SiteHeader from "@/components/SiteHeader";
+import { artifactHref } from "@/lib/artifacts";
+import { compressIds, coverage, eventIndex, parseIdList } from "@/lib/eventIds";
+import { useCatalogue } from "@/lib/useCatalogue";
+import { uniq } from "@/lib/utils";
+
+export default function EventIdView() {
+  const searchParams = useSearchParams();
+  const source = searchParams.get("source") ?? "";
+  // Kept locally so typing (and large pastes) are not interrupted by URL round-trips.
+  const [text, setText] = useState(searchParams.get("q") ?? "");
+
+  function navigate(patch: { q?: string; source?: string }) {
+    const params = new URLSearchParams();
+    const q = patch.q ?? text;
+    const s = patch.source ?? source;
+    if (q.trim()) params.set("q", q);
+    if (s) params.set("source", s);
+    const query = params.toString();
+    window.history.replaceState(null, "", window.location.pathname + (query ? `?${query}` : ""));
+  }
+  function changeText(q: string) { setText(q); navigate({ q }); }
+
+  const { artifacts } = useCatalogue();
+  const index = useMemo(() => eventIndex(artifacts), [artifacts]);
+  const sources = useMemo(() => uniq(index.map((e) => e.source)).sort(), [index]);
+
+  const query = useMemo(() => parseIdList(text), [text]);
+  const browsing = query.ids.length === 0;
+  const result = useMemo(
+    () => coverage(index, browsing ? index.map((e) => e.id) : query.ids, source),
+    [index, browsing, query.ids, source],
+  );
+  const conflicts = result.entries.filter((e) => e.conflict).length;
+  const unverified = result.entries.filter((e) => e.unverified).length;
+
+  return (
+    <div className="min-h-screen">
+      <SiteHeader />
+      <main className="mx-auto max-w-7xl px-4 py-6 grid grid-cols-1 md:grid-cols-12 gap-6">
+        <aside className="md:col-span-4 space-y-6">
+          <section className="space-y-2">
+            <h2 className="text-base font-semibold uppercase tracking-wider text-gray-500">Event IDs</h2>
+            <label className="sr-only" htmlFor="event-ids">Event IDs, ranges or a pasted list</label>
+            <textarea
+              id="event-ids"
+              rows={6}
+              className="w-full rounded-xl border px-3 py-1.5 font-mono text-sm"
+              placeholder={"4698, 4624-4634\nor paste a column of IDs from a SIEM export"}
+              value={text}
+              onChange={(e) => changeText(e.target.value)}
+            />
+            {query.invalid.length > 0 && (
+              <p className="text-xs text-amber-700">Ignored (not an ID or range): <span className="font-mono">{query.invalid.slice(0, 10).join(" ")}</span>{query.invalid.length > 10 && ` +${query.invalid.length - 10} more`}</p>
+            )}
+            <label className="block text-sm text-gray-600" htmlFor="event-source">Log</label>
+            <select id="event-source" className="w-full rounded-xl border px-3 py-1.5 bg-white" value={source} onChange={(e) => navigate({ source: e.target.value })}>
+              <option value="">All logs</option>
+              {sources.map((s) => (<option key={s} value={s}>{s}</option>))}
+            </select>
+          </section>
+          {!browsing && (
+            <section className="space-y-2">
+              <h2 className="text-base font-semibold uppercase tracking-wider text-gray-500">Coverage</h2>
+              <p className="text-base"><span className="font-semibold">{result.covered.length}</span> of {query.ids.length} ID{query.ids.length !== 1 ? "s" : ""} documented{source && <> in <span className="font-mono text-sm">{source}</span></>}</p>
+              {result.gaps.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-700">Gaps</h3>
+                  <p className="mt-1 font-mono text-sm break-words bg-gray-50 border rounded px-2 py-1">{compressIds(result.gaps)}</p>
+                </div>
+              )}
+            </section>
+          )}
+        </aside>
+
+        <section className="md:col-span-8">
+          <div className="flex items-center justify-between mb-3">
+            <p className="text-base text-gray-500">
+              {browsing ? `All ${result.entries.length} documented events` : `${result.entries.length} matching event${result.entries.length !== 1 ? "s" : ""}`}
+              {conflicts > 0 && <span className="text-amber-700"> · {conflicts} with conflicting descriptions</span>}
+              {unverified > 0 && <span> · {unverified} unverified</span>}
+            </p>
+          </div>
+          {result.entries.length === 0 ? (
+            <p className="text-base text-gray-500">No artifact documents {source ? "these IDs in this log" : "these IDs"} yet.</p>
+          ) : (
+            <div className="bg-white rounded-2xl border divide-y">
+              {result.entries.map((e) => (
+                <div key={e.key} className="p-3 grid grid-cols-[5rem_1fr] gap-3">
+                  <div className="font-mono text-lg font-semibold">{e.id}</div>
+                  <div className="min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-sm font-mono text-gray-600 break-all">{e.source}</span>
+                      {e.conflict && <span className="text-xs px-2 py-0.5 rounded-full border border-amber-300 bg-amber-50 text-amber-900">Conflicting descriptions</span>}
+                      {e.unverified && <span className="text-xs px-2 py-0.5 rounded-full border text-gray-600" title="At least one entry gives no title for this ID, so it cannot be checked against the others">Unverified</span>}
+                    </div>
+                    {e.titles.length > 0 && <div className="text-base font-medium">{e.titles.join(" / ")}</div>}
+                    <ul className="mt-1 space-y-1">
+                      {e.refs.map((r, i) => (
+                        <li key={i} className="text-sm">
+                          <Link href={artifactHref(r.artifact.slug)} className="underline">{r.artifact.name}</Link>
+                          {e.conflict && r.title && <span className="font-medium"> — {r.title}</span>}
+                          <span className="text-gray-600"> — {r.group.description}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
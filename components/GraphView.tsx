@@ -0,0 +1,207 @@
+"use client";
+import Link from "next/link";
+import React, { useMemo, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import SiteHeader from "@/components/SiteHeader";
+import { artifactHref, getArtifactBySlug } from "@/lib/artifacts";
+import { getPlatform, platformLabel } from "@/lib/platforms";
+import { RELATION_LABEL, RELATION_TYPES, neighbourhood, relationEdges, type RelationEdge } from "@/lib/relations";
+import type { Platform, RelationType } from "@/lib/schema";
+import { useCatalogue } from "@/lib/useCatalogue";
+import { classNames } from "@/lib/utils";
+
+const WIDTH = 800;
+const HEIGHT = 640;
+const MAX_DEPTH = 3;
+
+const EDGE_STYLE: Record<RelationType, { stroke: string; dash?: string; directed: boolean }> = {
+  "corroborates": { stroke: "#374151", directed: true },
+  "supersedes": { stroke: "#b45309", dash: "8 4", directed: true },
+  "same-source-as": { stroke: "#2563eb", dash: "2 4", directed: false },
+  "parsed-by-same-tool": { stroke: "#059669", dash: "10 4 2 4", directed: false },
+};
+
+type Point = { x: number; y: number };
+
+// Root in the centre, one ring per hop; within a ring, nodes are grouped by platform.
+function radialLayout(nodes: Array<{ id: string; depth: number; platform: Platform; name: string }>, depth: number): Map<string, Point> {
+  const positions = new Map<string, Point>();
+  const ringGap = (Math.min(WIDTH, HEIGHT) / 2 - 60) / Math.max(depth, 1);
+  for (let d = 0; d <= depth; d++) {
+    const ring = nodes.filter((n) => n.depth === d).sort((a, b) => a.platform.localeCompare(b.platform) || a.name.localeCompare(b.name));
+    ring.forEach((n, i) => {
+      const angle = (2 * Math.PI * i) / ring.length - Math.PI / 2 + d * 0.4;
+      positions.set(n.id, { x: WIDTH / 2 + Math.cos(angle) * ringGap * d, y: HEIGHT / 2 + Math.sin(angle) * ringGap * d });
+    });
+  }
+  return positions;
+}
+
+// Stop directed edges at the target circle's rim so the arrowhead stays visible.
+function trim(from: Point, to: Point, by: number): Point {
+  const len = Math.hypot(to.x - from.x, to.y - from.y) || 1;
+  return { x: to.x - ((to.x - from.x) / len) * by, y: to.y - ((to.y - from.y) / len) * by };
+}
+
+function shorten(text: string, max = 24) { return text.length > max ? `${text.slice(0, max - 1)}…` : text; }
+
+export default function GraphView() {
+  const searchParams = useSearchParams();
+  const { artifacts } = useCatalogue();
+  const byId = useMemo(() => new Map(artifacts.map((a) => [a.id, a])), [artifacts]);
+  const fallback = artifacts.find((a) => a.relations?.length) ?? artifacts[0];
+  const root = getArtifactBySlug(searchParams.get("artifact") ?? "", artifacts) ?? fallback;
+  const depth = Math.min(MAX_DEPTH, Math.max(1, Number(searchParams.get("depth")) || 2));
+  // Same convention as the explorer's platforms: no param means all types, an empty one means none.
+  const types = useMemo(
+    () => (searchParams.has("type") ? RELATION_TYPES.filter((t) => searchParams.getAll("type").includes(t)) : RELATION_TYPES),
+    [searchParams],
+  );
+  const [hovered, setHovered] = useState<string | null>(null);
+
+  const { nodes, edges } = useMemo(() => neighbourhood(root.id, depth, types, artifacts), [root.id, depth, types, artifacts]);
+  const positions = useMemo(
+    () => radialLayout(nodes.map((n) => ({ id: n.artifact.id, depth: n.depth, platform: n.artifact.platform, name: n.artifact.name })), depth),
+    [nodes, depth],
+  );
+  const platforms = Array.from(new Set(nodes.map((n) => n.artifact.platform)));
+  // Relations to an id that is not in the catalogue (a removed local artifact) are left out, as in neighbourhood().
+  const rootEdges = relationEdges(artifacts).flatMap((e) => {
+    const other = byId.get(e.from === root.id ? e.to : e.to === root.id ? e.from : "");
+    return other ? [{ ...e, other }] : [];
+  });
+
+  function navigate(patch: { artifact?: string; depth?: number; types?: RelationType[] }, mode: "push" | "replace" = "push") {
+    const params = new URLSearchParams();
+    params.set("artifact", patch.artifact ?? root.slug);
+    const d = patch.depth ?? depth;
+    if (d !== 2) params.set("depth", String(d));
+    const t = patch.types ?? types;
+    if (t.length !== RELATION_TYPES.length) (t.length ? t : [""]).forEach((x) => params.append("type", x));
+    const url = `${window.location.pathname}?${params.toString()}`;
+    if (mode === "push") window.history.pushState(null, "", url);
+    else window.history.replaceState(null, "", url);
+  }
+  function toggleType(t: RelationType) { navigate({ types: types.includes(t) ? types.filter((x) => x !== t) : RELATION_TYPES.filter((x) => x === t || types.includes(x)) }, "replace"); }
+
+  const isLit = (e: RelationEdge) => hovered === null || e.from === hovered || e.to === hovered;
+
+  return (
+    <div className="min-h-screen">
+      <SiteHeader />
+      <main className="mx-auto max-w-7xl px-4 py-6 grid grid-cols-1 md:grid-cols-12 gap-6">
+        <aside className="md:col-span-3 space-y-6">
+          <section className="space-y-2">
+            <h2 className="text-base font-semibold uppercase tracking-wider text-gray-500">Centre</h2>
+            <label className="sr-only" htmlFor="graph-root">Artifact</label>
+            <select id="graph-root" className="w-full rounded-xl border px-3 py-1.5 bg-white" value={root.slug} onChange={(e) => navigate({ artifact: e.target.value })}>
+              {artifacts.map((a) => (<option key={a.id} value={a.slug}>{a.name} ({platformLabel(a.platform)})</option>))}
+            </select>
+            <div className="flex items-center gap-2 text-sm text-gray-600">
+              Hops
+              {Array.from({ length: MAX_DEPTH }, (_, i) => i + 1).map((d) => (
+                <button key={d} onClick={() => navigate({ depth: d }, "replace")} aria-pressed={d === depth} className={classNames("px-3 py-1 rounded-full border", d === depth ? "bg-gray-900 text-white border-gray-900" : "hover:bg-gray-100")}>{d}</button>
+              ))}
+            </div>
+          </section>
+          <section>
+            <h2 className="text-base font-semibold uppercase tracking-wider text-gray-500">Relations</h2>
+            <ul className="mt-2 space-y-1">
+              {RELATION_TYPES.map((t) => (
+                <li key={t}>
+                  <label className="flex items-center gap-2 text-sm">
+                    <input type="checkbox" checked={types.includes(t)} onChange={() => toggleType(t)} />
+                    <svg width="28" height="8" aria-hidden="true"><line x1="0" y1="4" x2="28" y2="4" stroke={EDGE_STYLE[t].stroke} strokeWidth="2" strokeDasharray={EDGE_STYLE[t].dash} /></svg>
+                    {RELATION_LABEL[t].out}
+                  </label>
+                </li>
+              ))}
+            </ul>
+          </section>
+          <section>
+            <h2 className="text-base font-semibold uppercase tracking-wider text-gray-500">Platforms</h2>
+            <ul className="mt-2 space-y-1 text-sm">
+              {platforms.map((p) => (
+                <li key={p} className="flex items-center gap-2"><span className="h-3 w-3 rounded-full" style={{ background: getPlatform(p).color }} />{platformLabel(p)}</li>
+              ))}
+            </ul>
+          </section>
+        </aside>
+
+        <section className="md:col-span-9 space-y-4">
+          <div className="bg-white rounded-2xl border overflow-hidden">
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={`Relations around ${root.name}`}>
+              <defs>
+                {RELATION_TYPES.filter((t) => EDGE_STYLE[t].directed).map((t) => (
+                  <marker key={t} id={`arrow-${t}`} viewBox="0 0 10 10" refX="10" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+                    <path d="M0,0 L10,5 L0,10 z" fill={EDGE_STYLE[t].stroke} />
+                  </marker>
+                ))}
+              </defs>
+              {edges.map((e, i) => {
+                const from = positions.get(e.from)!;
+                const to = trim(from, positions.get(e.to)!, e.to === root.id ? 16 : 11);
+                const style = EDGE_STYLE[e.type];
+                return (
+                  <line key={i} x1={from.x} y1={from.y} x2={to.x} y2={to.y} stroke={style.stroke} strokeWidth={isLit(e) ? 2 : 1} strokeDasharray={style.dash} opacity={isLit(e) ? 0.9 : 0.15} markerEnd={style.directed ? `url(#arrow-${e.type})` : undefined}>
+                    <title>{`${byId.get(e.from)?.name} ${RELATION_LABEL[e.type].out.toLowerCase()} ${byId.get(e.to)?.name}${e.note ? ` — ${e.note}` : ""}`}</title>
+                  </line>
+                );
+              })}
+              {nodes.map(({ artifact: a }) => {
+                const p = positions.get(a.id)!;
+                const isRoot = a.id === root.id;
+                return (
+                  <g
+                    key={a.id}
+                    role="button"
+                    tabIndex={0}
+                    aria-label={`Centre on ${a.name}`}
+                    className="cursor-pointer focus:outline-none"
+                    onClick={() => navigate({ artifact: a.slug })}
+                    onKeyDown={(e) => { if (e.key === "Enter" || e.key === " ") { e.preventDefault(); navigate({ artifact: a.slug }); } }}
+                    onMouseEnter={() => setHovered(a.id)}
+                    onMouseLeave={() => setHovered(null)}
+                    onFocus={() => setHovered(a.id)}
+                    onBlur={() => setHovered(null)}
+                  >
+                    <circle cx={p.x} cy={p.y} r={isRoot ? 14 : 9} fill={getPlatform(a.platform).color} stroke="#fff" strokeWidth="3" />
+                    <text x={p.x} y={p.y + (isRoot ? 30 : 24)} textAnchor="middle" fontSize={isRoot ? 15 : 12} fontWeight={isRoot ? 600 : 400} fill="#111827" stroke="#fff" strokeWidth="4" paintOrder="stroke">{shorten(a.name)}</text>
+                    <title>{`${a.name} (${platformLabel(a.platform)})`}</title>
+                  </g>
+                );
+              })}
+            </svg>
+          </div>
+
+          <div className="bg-white rounded-2xl border p-4">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <h2 className="text-xl font-semibold">{root.name}</h2>
+                <p className="text-base text-gray-600">{root.summary}</p>
+              </div>
+              <Link href={artifactHref(root.slug)} className="rounded-lg border px-2 py-1 hover:bg-gray-100 whitespace-nowrap">Details</Link>
+            </div>
+            {rootEdges.length === 0 ? (
+              <p className="mt-3 text-sm text-gray-500">No relations are recorded for this artifact yet.</p>
+            ) : (
+              <ul className="mt-3 space-y-1 text-sm">
+                {rootEdges.map((e, i) => {
+                  const outgoing = e.from === root.id;
+                  const { other } = e;
+                  return (
+                    <li key={i}>
+                      <span className="text-gray-500">{RELATION_LABEL[e.type][outgoing ? "out" : "in"]}</span>{" "}
+                      <button onClick={() => navigate({ artifact: other.slug })} className="underline">{other.name}</button>
+                      {e.note && <span className="text-gray-500"> — {e.note}</span>}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        </section>
+      </main>
+    </div>
+  );
+}
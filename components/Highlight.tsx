@@ -0,0 +1,16 @@
+import React from "react";
+
+/** Renders `text` with every token found in `terms` wrapped in <mark>. Terms are lowercase index tokens. */
+export default function Highlight({ text, terms }: { text: string; terms: Set<string> }) {
+  if (terms.size === 0) return <>{text}</>;
+  const parts = text.split(/([\p{L}\p{N}]+)/u);
+  return (
+    <>
+      {parts.map((part, i) =>
+        i % 2 === 1 && terms.has(part.toLowerCase())
+          ? <mark key={i} className="bg-yellow-100 rounded-sm">{part}</mark>
+          : <React.Fragment key={i}>{part}</React.Fragment>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,109 @@
+"use client";
+import Link from "next/link";
+import React, { useRef, useState } from "react";
+import LocalBadge from "@/components/LocalBadge";
+import PlatformBadge from "@/components/PlatformBadge";
+import SiteHeader from "@/components/SiteHeader";
+import StorageNotice from "@/components/StorageNotice";
+import { artifactHref } from "@/lib/artifacts";
+import { downloadText } from "@/lib/download";
+import { editorHref } from "@/lib/editor";
+import { exportOverlay, importOverlay, relatedLocal } from "@/lib/overlay";
+import type { Artifact, DataIssue } from "@/lib/schema";
+import { useCatalogue } from "@/lib/useCatalogue";
+import { classNames } from "@/lib/utils";
+
+function Issues({ issues, className }: { issues: DataIssue[]; className: string }) {
+  return (
+    <ul className={classNames("list-disc list-inside text-sm", className)}>
+      {issues.map((e, i) => (<li key={i}><span className="font-mono text-xs">{e.artifactId ?? e.path}</span>: {e.message}</li>))}
+    </ul>
+  );
+}
+
+export default function LocalArtifacts() {
+  const { local, setLocal, localKind, removeLocal, storage } = useCatalogue();
+  const [pasted, setPasted] = useState("");
+  const [outcome, setOutcome] = useState<ReturnType<typeof importOverlay> | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  function removeMessage(a: Artifact): string {
+    const dependents = relatedLocal(local, a.id);
+    const question = `Remove the local copy of "${a.name}"?`;
+    return dependents.length ? `${question}\n\nIts relations from ${dependents.map((d) => `"${d.name}"`).join(", ")} are removed as well.` : question;
+  }
+
+  // All or nothing: a file with any error leaves the stored list untouched.
+  function onImport(text: string) {
+    const result = importOverlay(text, local);
+    setOutcome(result);
+    if (result.errors.length > 0) return;
+    setLocal(result.local);
+    setPasted("");
+  }
+
+  return (
+    <div className="min-h-screen">
+      <SiteHeader />
+      <main className="mx-auto max-w-7xl px-4 py-6 grid grid-cols-1 md:grid-cols-12 gap-6">
+        <aside className="md:col-span-4 space-y-6">
+          <StorageNotice problem={storage} what="local artifacts" />
+          <section className="space-y-2">
+            <h2 className="text-base font-semibold uppercase tracking-wider text-gray-500">Import</h2>
+            <p className="text-sm text-gray-600">
+              A JSON list of artifacts in the format of <span className="font-mono">data/seed.json</span>, or a single one as the editor downloads it.
+              An artifact with the id of a published one overrides it; importing an id again replaces the local copy.
+            </p>
+            <button onClick={() => fileInput.current?.click()} className="rounded-xl border px-3 py-1.5 hover:bg-gray-100">Import JSON…</button>
+            <input ref={fileInput} type="file" accept="application/json,.json" className="hidden" onChange={async (e) => { const f = e.target.files?.[0]; e.target.value = ""; if (f) onImport(await f.text()); }} />
+            <label className="sr-only" htmlFor="local-paste">Paste artifact JSON</label>
+            <textarea id="local-paste" rows={6} className="w-full rounded-xl border px-3 py-1.5 font-mono text-sm" placeholder="…or paste JSON here" value={pasted} onChange={(e) => setPasted(e.target.value)} />
+            <button disabled={!pasted.trim()} onClick={() => onImport(pasted)} className="rounded-xl border px-3 py-1.5 hover:bg-gray-100 disabled:opacity-50">Import pasted</button>
+            {outcome && outcome.errors.length > 0 && (
+              <div className="rounded-xl border border-amber-300 bg-amber-50 p-3 text-amber-900 space-y-1">
+                <p className="text-sm">Nothing was imported; {outcome.errors.length} problem{outcome.errors.length !== 1 ? "s" : ""} to fix first:</p>
+                <Issues issues={outcome.errors} className="text-amber-900" />
+              </div>
+            )}
+            {outcome && outcome.errors.length === 0 && <p className="text-sm text-green-700">Imported {outcome.imported} artifact{outcome.imported !== 1 ? "s" : ""}.</p>}
+            {outcome && outcome.warnings.length > 0 && <Issues issues={outcome.warnings} className="text-gray-600" />}
+          </section>
+          <section className="space-y-2">
+            <h2 className="text-base font-semibold uppercase tracking-wider text-gray-500">Handover</h2>
+            <div className="flex flex-wrap gap-2">
+              <button disabled={local.length === 0} onClick={() => downloadText("local-artifacts.json", exportOverlay(local), "application/json")} className="rounded-xl border px-3 py-1.5 hover:bg-gray-100 disabled:opacity-50">Export all</button>
+              <button disabled={local.length === 0} onClick={() => { if (confirm(`Remove all ${local.length} local artifacts from this browser?`)) { setLocal([]); setOutcome(null); } }} className="rounded-xl border px-3 py-1.5 hover:bg-gray-100 disabled:opacity-50">Remove all</button>
+            </div>
+            <p className="text-xs text-gray-500">The export can be imported in another browser, or pasted into <span className="font-mono">data/seed.json</span> once an artifact is fit to publish.</p>
+          </section>
+        </aside>
+
+        <section className="md:col-span-8 space-y-3">
+          <p className="text-base text-gray-600">
+            Local artifacts live in this browser&apos;s storage only and are never sent anywhere. They show up everywhere alongside the published catalogue, marked <LocalBadge kind="local" /> or <LocalBadge kind="override" />.
+          </p>
+          {local.length === 0 && <p className="text-base text-gray-500">No local artifacts yet. Import a file, or use &quot;Save to this browser&quot; in the <Link className="underline" href={editorHref()}>editor</Link>.</p>}
+          <ul className="space-y-2">
+            {local.map((a) => (
+              <li key={a.id} className="bg-white rounded-2xl border p-4 flex flex-wrap items-start justify-between gap-3">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <PlatformBadge platform={a.platform} />
+                    <LocalBadge kind={localKind(a.id)} />
+                  </div>
+                  <Link href={artifactHref(a.slug)} className="text-lg font-semibold hover:underline">{a.name}</Link>
+                  <p className="text-xs font-mono text-gray-500">{a.id}</p>
+                  <p className="text-sm text-gray-600">{a.summary}</p>
+                </div>
+                <div className="flex gap-2 text-sm">
+                  <Link href={editorHref(a.slug)} className="rounded-lg border px-2 py-1 hover:bg-gray-100">Edit</Link>
+                  <button onClick={() => { if (confirm(removeMessage(a))) removeLocal(a.id); }} className="rounded-lg border px-2 py-1 hover:bg-gray-100">Remove</button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+import React from "react";
+import type { LocalKind } from "@/lib/useCatalogue";
+
+const LABEL: Record<LocalKind, { text: string; title: string }> = {
+  local: { text: "Local", title: "Stored in this browser only; not part of the published catalogue" },
+  override: { text: "Local override", title: "A copy stored in this browser replaces the published entry" },
+};
+
+/** Marks artifacts from the local overlay; renders nothing for published ones. */
+export default function LocalBadge({ kind }: { kind?: LocalKind }) {
+  if (!kind) return null;
+  return (
+    <span className="text-xs px-2 py-0.5 rounded-full bg-amber-50 border border-amber-300 text-amber-900" title={LABEL[kind].title}>
+      {LABEL[kind].text}
+    </span>
+  );
+}
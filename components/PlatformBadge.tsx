@@ -0,0 +1,13 @@
+import React from "react";
+import { getPlatform } from "@/lib/platforms";
+import type { Platform } from "@/lib/schema";
+
+export default function PlatformBadge({ platform }: { platform: Platform }) {
+  const p = getPlatform(platform);
+  return (
+    <span className="inline-flex items-center gap-1 text-xs px-2 py-0.5 rounded-full bg-gray-100 border">
+      <span className="font-mono text-[10px] font-bold" style={{ color: p.color }} aria-hidden="true">{p.icon}</span>
+      {p.label}
+    </span>
+  );
+}
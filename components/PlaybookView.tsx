@@ -0,0 +1,75 @@
+"use client";
+import Link from "next/link";
+import React, { useMemo, useRef, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import CommandPanel from "@/components/CommandPanel";
+import SiteHeader from "@/components/SiteHeader";
+import { getArtifactsBySlugs } from "@/lib/artifacts";
+import { downloadText, fileSafe } from "@/lib/download";
+import { toTkape } from "@/lib/kape";
+import { playbookHtml, playbookMarkdown, playbookQuery } from "@/lib/playbook";
+import { useCatalogue } from "@/lib/useCatalogue";
+import { useCommandVariables } from "@/lib/useCommandVariables";
+
+export default function PlaybookView() {
+  const searchParams = useSearchParams();
+  const { artifacts: catalogue } = useCatalogue();
+  const artifacts = useMemo(() => getArtifactsBySlugs(searchParams.getAll("artifact"), catalogue), [searchParams, catalogue]);
+  const slugs = artifacts.map((a) => a.slug);
+  const [title, setTitle] = useState(searchParams.get("title") ?? "Evidence Collection Playbook");
+  const frame = useRef<HTMLIFrameElement>(null);
+  const { values, setValue, reset } = useCommandVariables();
+
+  const html = useMemo(() => playbookHtml(artifacts, { title, values }), [artifacts, title, values]);
+  const base = fileSafe(title, "playbook");
+  const windows = artifacts.filter((a) => a.platform === "windows").length;
+
+  // Keeps the title the page was opened with, so a reload or shared link still names the playbook.
+  function setSlugs(next: string[]) { window.history.replaceState(null, "", window.location.pathname + playbookQuery(next, searchParams.get("title"))); }
+
+  return (
+    <div className="min-h-screen">
+      <SiteHeader />
+      <main className="mx-auto max-w-7xl px-4 py-6 grid grid-cols-1 md:grid-cols-12 gap-6">
+        <aside className="md:col-span-4 space-y-6">
+          <section className="space-y-2">
+            <h2 className="text-base font-semibold uppercase tracking-wider text-gray-500">Playbook</h2>
+            <label className="block text-sm text-gray-600" htmlFor="playbook-title">Title</label>
+            <input id="playbook-title" className="w-full rounded-xl border px-3 py-1.5" value={title} onChange={(e) => setTitle(e.target.value)} />
+            <div className="flex flex-wrap gap-2 pt-2">
+              <button disabled={artifacts.length === 0} onClick={() => downloadText(`${base}.md`, playbookMarkdown(artifacts, { title, values }), "text/markdown")} className="rounded-xl border px-3 py-1.5 hover:bg-gray-100 disabled:opacity-50">Markdown</button>
+              <button disabled={artifacts.length === 0} onClick={() => downloadText(`${base}.html`, html, "text/html")} className="rounded-xl border px-3 py-1.5 hover:bg-gray-100 disabled:opacity-50">HTML</button>
+              <button disabled={windows === 0} onClick={() => downloadText(`${base}.tkape`, toTkape(artifacts, { description: title }), "application/x-yaml")} className="rounded-xl border px-3 py-1.5 hover:bg-gray-100 disabled:opacity-50">KAPE target</button>
+              <button disabled={artifacts.length === 0} onClick={() => frame.current?.contentWindow?.print()} className="rounded-xl border px-3 py-1.5 bg-gray-900 text-white border-gray-900 disabled:opacity-50">Print / PDF</button>
+            </div>
+            <p className="text-xs text-gray-500">The HTML file is standalone and carries the same print stylesheet, so it can be attached as-is or printed to PDF later. The KAPE target collects the Windows file locations; registry keys and event channels are listed as comments.</p>
+          </section>
+          <CommandPanel artifacts={artifacts} values={values} onChange={setValue} onReset={reset} title={title} />
+          <section>
+            <h2 className="text-base font-semibold uppercase tracking-wider text-gray-500">Artifacts ({artifacts.length})</h2>
+            <ol className="mt-2 space-y-1 list-decimal list-inside text-sm">
+              {artifacts.map((a) => (
+                <li key={a.id} className="flex items-center justify-between gap-2">
+                  <span className="truncate">{a.name}</span>
+                  <button onClick={() => setSlugs(slugs.filter((s) => s !== a.slug))} className="text-xs text-gray-500 hover:text-gray-900" aria-label={`Remove ${a.name}`}>✕</button>
+                </li>
+              ))}
+            </ol>
+            <label className="sr-only" htmlFor="playbook-add">Add artifact</label>
+            <select id="playbook-add" className="mt-2 w-full rounded-xl border px-3 py-1.5 bg-white" value="" onChange={(e) => e.target.value && setSlugs([...slugs, e.target.value])}>
+              <option value="">Add artifact…</option>
+              {catalogue.filter((a) => !slugs.includes(a.slug)).map((a) => (<option key={a.id} value={a.slug}>{a.name}</option>))}
+            </select>
+          </section>
+        </aside>
+        <section className="md:col-span-8">
+          {artifacts.length === 0 ? (
+            <p className="text-base text-gray-500">No artifacts selected. Export a result set from the <Link className="underline" href="/">explorer</Link>, or add artifacts on the left.</p>
+          ) : (
+            <iframe ref={frame} title="Playbook preview" srcDoc={html} className="w-full h-[80vh] bg-white rounded-2xl border" />
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+import React from "react";
+import { percent, type Progress } from "@/lib/cases";
+
+export default function ProgressBar({ progress, label }: { progress: Progress; label?: string }) {
+  const pct = percent(progress);
+  return (
+    <div className="flex items-center gap-2 text-xs text-gray-600" title={`${progress.done} of ${progress.total} steps done`}>
+      <div className="h-2 flex-1 rounded-full bg-gray-100 border overflow-hidden" role="progressbar" aria-valuenow={pct} aria-valuemin={0} aria-valuemax={100} aria-label={label}>
+        <div className="h-full bg-gray-900" style={{ width: `${pct}%` }} />
+      </div>
+      <span className="tabular-nums">{progress.done}/{progress.total}</span>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+"use client";
+import React from "react";
+import { COMMAND_VARIABLES } from "@/lib/artifacts";
+import { renderCommand, type CommandValues } from "@/lib/commands";
+import { PLACEHOLDER_PATTERN, type ParserRef } from "@/lib/schema";
+
+/** A parser's command with the current variable values filled in; placeholders still unset are highlighted. */
+export default function RenderedCommand({ parser, values }: { parser: ParserRef; values: CommandValues }) {
+  const command = renderCommand(parser, values, COMMAND_VARIABLES);
+  const parts = command.split(new RegExp(PLACEHOLDER_PATTERN.source));   // odd indexes are placeholder names
+  return (
+    <div className="text-xs font-mono bg-gray-50 border rounded p-2 break-all">
+      <div className="flex items-center justify-between gap-2">
+        <span>
+          {parts.map((part, i) => (i % 2 === 1
+            ? <mark key={i} className="bg-amber-100 rounded px-0.5" title="Not set; fill it in under Command variables">{`{${part}}`}</mark>
+            : part))}
+        </span>
+        <button className="text-xs underline" onClick={async () => { try { await navigator.clipboard.writeText(command); } catch {} }}>Copy</button>
+      </div>
+      {parser.runs_in === "query" && <div className="mt-1 font-sans text-[11px] text-gray-500">Query — run it in {parser.tool_name}, not in a shell.</div>}
+    </div>
+  );
+}
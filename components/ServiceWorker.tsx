@@ -0,0 +1,19 @@
+"use client";
+import { useEffect } from "react";
+
+const BASE_PATH = process.env.NEXT_PUBLIC_BASE_PATH ?? "";
+
+/**
+ * Registers out/sw.js (written by scripts/build-sw.ts after `next build`), which caches the
+ * whole static site so it keeps working without a network. Skipped in `next dev`, where
+ * there is no sw.js and cached pages would hide changes.
+ */
+export default function ServiceWorker() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+    navigator.serviceWorker.register(`${BASE_PATH}/sw.js`, { scope: `${BASE_PATH}/` }).catch(() => {
+      // Offline mode is a bonus; the site works the same without it.
+    });
+  }, []);
+  return null;
+}
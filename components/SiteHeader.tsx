@@ -0,0 +1,35 @@
+import Link from "next/link";
+import React from "react";
+
+const NAV_LINKS: Array<{ href: string; label: string }> = [
+  { href: "/", label: "Explorer" },
+  { href: "/graph/", label: "Graph" },
+  { href: "/attack/", label: "ATT&CK" },
+  { href: "/event-ids/", label: "Event IDs" },
+  { href: "/timestamps/", label: "Timestamps" },
+  { href: "/crosswalk/", label: "Crosswalk" },
+  { href: "/cases/", label: "Cases" },
+  { href: "/editor/", label: "Editor" },
+  { href: "/local/", label: "Local" },
+];
+
+/** Sticky top bar shared by every page; `children` fills the middle slot (e.g. the search box). */
+export default function SiteHeader({ children, actions }: { children?: React.ReactNode; actions?: React.ReactNode }) {
+  return (
+    <header className="sticky top-0 z-10 bg-white/80 backdrop-blur border-b print:hidden">
+      <div className="mx-auto max-w-7xl px-4 py-4 flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <Link href="/" className="flex items-center gap-3">
+          <div className="h-9 w-9 rounded-2xl bg-gray-900 text-white flex items-center justify-center font-bold">DF</div>
+          <h1 className="text-xl font-semibold">DFIR Artifact Explorer</h1>
+        </Link>
+        {children && <div className="flex-1 md:max-w-xl">{children}</div>}
+        <div className="flex flex-wrap items-center gap-2">
+          <nav className="flex flex-wrap gap-3 text-sm text-gray-600 mr-2">
+            {NAV_LINKS.map((l) => (<Link key={l.href} href={l.href} className="hover:text-gray-900 hover:underline">{l.label}</Link>))}
+          </nav>
+          {actions}
+        </div>
+      </div>
+    </header>
+  );
+}
@@ -0,0 +1,27 @@
+"use client";
+import React from "react";
+import { downloadText } from "@/lib/download";
+import type { StorageProblem } from "@/lib/useStoredState";
+
+/** Explains stored data the page cannot show or save, e.g. cases written by an older version. */
+export default function StorageNotice({ problem, what }: { problem?: StorageProblem; what: string }) {
+  if (!problem) return null;
+  if (problem.kind === "unwritable") {
+    return (
+      <div className="rounded-xl border border-amber-300 bg-amber-50 p-3 text-sm text-amber-900">
+        Changes to {what} cannot be saved in this browser ({problem.message}); they are lost when the page is closed. Export what you need to keep.
+      </div>
+    );
+  }
+  return (
+    <div className="rounded-xl border border-amber-300 bg-amber-50 p-3 text-sm text-amber-900 space-y-2">
+      <p>
+        The {what} stored in this browser could not be read, so none are shown. A copy is kept under <span className="font-mono">{problem.backupKey}</span>;
+        the original is replaced as soon as you change anything here.
+      </p>
+      <button onClick={() => downloadText(`${problem.key.replace(/[^a-z0-9]+/gi, "-")}-backup.json`, localStorage.getItem(problem.backupKey) ?? "", "application/json")} className="rounded-lg border border-amber-300 bg-white px-2 py-1 hover:bg-amber-100">
+        Download the unreadable data
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+"use client";
+import Link from "next/link";
+import React, { useMemo, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import { z } from "zod";
+import SiteHeader from "@/components/SiteHeader";
+import { artifactHref, getArtifactBySlug } from "@/lib/artifacts";
+import { TimestampEncodingSchema, type TimestampEncoding } from "@/lib/schema";
+import {
+  ENCODINGS, ENCODING_HINT, ENCODING_LABEL, PRECISION_LABEL, TZ_LABEL,
+  decodeTimestamp, fieldWarnings, formatInZone, formatUtc, fromWallClock, isPlausible, timeZones, timestampQuery,
+  type Decoded, type WorkbenchState,
+} from "@/lib/timestamps";
+import { useCatalogue } from "@/lib/useCatalogue";
+import { useStoredState } from "@/lib/useStoredState";
+import { classNames } from "@/lib/utils";
+
+function Reading({ label, decoded, zone }: { label: string; decoded: Decoded; zone: string }) {
+  return (
+    <div className="border rounded-xl p-3">
+      <div className="text-xs text-gray-500">{label}</div>
+      <div className="font-mono text-base break-all">{formatUtc(decoded)}</div>
+      {zone !== "UTC" && <div className="font-mono text-sm text-gray-600 break-all">{formatInZone(decoded, zone)} <span className="text-gray-400">({zone})</span></div>}
+      {decoded.note && <div className="text-xs text-gray-500 mt-1">{decoded.note}</div>}
+    </div>
+  );
+}
+
+export default function TimestampWorkbench() {
+  const searchParams = useSearchParams();
+  const { artifacts } = useCatalogue();
+  const withTimestamps = useMemo(() => artifacts.filter((a) => a.timestamps?.length), [artifacts]);
+  const artifact = getArtifactBySlug(searchParams.get("artifact") ?? "", artifacts);
+  const fieldIndex = searchParams.has("field") ? Number(searchParams.get("field")) : undefined;
+  const field = fieldIndex !== undefined ? artifact?.timestamps?.[fieldIndex] : undefined;
+  const requested = TimestampEncodingSchema.safeParse(searchParams.get("encoding"));
+  // "auto" tries every encoding; launching from a documented field preselects its encoding.
+  const encoding: TimestampEncoding | "auto" = requested.success ? requested.data : field?.encoding ?? "auto";
+
+  // Kept locally so typing is not interrupted by URL round-trips.
+  const [value, setValue] = useState(searchParams.get("value") ?? "");
+  const [zone, setZone] = useStoredState("dfir-explorer:timezone", z.string(), "UTC");
+  const zones = useMemo(() => timeZones(), []);
+  const [wallClock, setWallClock] = useState<boolean | null>(null);
+  const [hostZone, setHostZone] = useState<string | null>(null);
+  const asLocal = wallClock ?? field?.tz_behavior === "local";
+
+  function navigate(patch: WorkbenchState) {
+    const next: WorkbenchState = { artifact: artifact?.slug, field: field ? fieldIndex : undefined, encoding: requested.success ? requested.data : undefined, value, ...patch };
+    window.history.replaceState(null, "", window.location.pathname + timestampQuery(next));
+  }
+  function changeValue(v: string) { setValue(v); navigate({ value: v }); }
+  function pickField(slug: string | undefined, index?: number) { setWallClock(null); navigate({ artifact: slug, field: index, encoding: undefined }); }
+
+  const result = encoding === "auto" ? null : decodeTimestamp(value, encoding);
+  const decoded = result?.ok ? result.value : undefined;
+  const candidates = useMemo(() => {
+    if (encoding !== "auto" || !value.trim()) return [];
+    return ENCODINGS.flatMap((e) => {
+      const r = decodeTimestamp(value, e);
+      return r.ok && isPlausible(r.value) ? [{ encoding: e, decoded: r.value }] : [];
+    });
+  }, [encoding, value]);
+  const warnings = field ? fieldWarnings(field, encoding === "auto" ? undefined : encoding, decoded) : [];
+  const host = hostZone ?? zone;
+
+  return (
+    <div className="min-h-screen">
+      <SiteHeader />
+      <main className="mx-auto max-w-7xl px-4 py-6 grid grid-cols-1 md:grid-cols-12 gap-6">
+        <aside className="md:col-span-4 space-y-6">
+          <section className="space-y-2">
+            <h2 className="text-base font-semibold uppercase tracking-wider text-gray-500">Raw value</h2>
+            <label className="sr-only" htmlFor="ts-value">Raw value</label>
+            <input id="ts-value" className="w-full rounded-xl border px-3 py-1.5 font-mono" placeholder="e.g. 133525332345678901" value={value} onChange={(e) => changeValue(e.target.value)} autoFocus />
+            <label className="block text-sm text-gray-600" htmlFor="ts-encoding">Encoding</label>
+            <select id="ts-encoding" className="w-full rounded-xl border px-3 py-1.5 bg-white" value={encoding} onChange={(e) => navigate({ encoding: e.target.value === "auto" ? undefined : (e.target.value as TimestampEncoding) })}>
+              <option value="auto">Auto-detect (plausible dates only)</option>
+              {ENCODINGS.map((e) => (<option key={e} value={e}>{ENCODING_LABEL[e]}</option>))}
+            </select>
+            {encoding !== "auto" && <p className="text-xs text-gray-500">{ENCODING_HINT[encoding]}</p>}
+          </section>
+          <section className="space-y-2">
+            <h2 className="text-base font-semibold uppercase tracking-wider text-gray-500">Display zone</h2>
+            <label className="sr-only" htmlFor="ts-zone">Display time zone</label>
+            <select id="ts-zone" className="w-full rounded-xl border px-3 py-1.5 bg-white" value={zone} onChange={(e) => setZone(e.target.value)}>
+              {!zones.includes(zone) && <option value={zone}>{zone}</option>}
+              {zones.map((z) => (<option key={z} value={z}>{z}</option>))}
+            </select>
+            <button onClick={() => setZone(Intl.DateTimeFormat().resolvedOptions().timeZone)} className="rounded-xl border px-3 py-1.5 text-sm hover:bg-gray-100">Use this browser&apos;s zone</button>
+          </section>
+          <section className="space-y-2">
+            <h2 className="text-base font-semibold uppercase tracking-wider text-gray-500">Artifact field</h2>
+            <label className="sr-only" htmlFor="ts-artifact">Artifact</label>
+            <select id="ts-artifact" className="w-full rounded-xl border px-3 py-1.5 bg-white" value={artifact?.slug ?? ""} onChange={(e) => pickField(e.target.value || undefined)}>
+              <option value="">None</option>
+              {withTimestamps.map((a) => (<option key={a.id} value={a.slug}>{a.name}</option>))}
+            </select>
+            {artifact?.timestamps && (
+              <div className="flex flex-wrap gap-2">
+                {artifact.timestamps.map((t, i) => (
+                  <button key={i} onClick={() => pickField(artifact.slug, i)} aria-pressed={field === t} className={classNames("px-3 py-1 rounded-full border text-sm", field === t ? "bg-gray-900 text-white border-gray-900" : "hover:bg-gray-100")}>
+                    {t.name}
+                  </button>
+                ))}
+              </div>
+            )}
+          </section>
+        </aside>
+
+        <section className="md:col-span-8 space-y-4">
+          {artifact && field && (
+            <div className="bg-white rounded-2xl border p-4">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <h2 className="text-xl font-semibold">{field.name}</h2>
+                  <p className="text-sm text-gray-600">{artifact.name}{field.source && <> · <span className="font-mono">{field.source}</span></>}</p>
+                </div>
+                <Link href={artifactHref(artifact.slug)} className="rounded-lg border px-2 py-1 hover:bg-gray-100 whitespace-nowrap">Details</Link>
+              </div>
+              <div className="mt-2 flex flex-wrap gap-2 text-xs">
+                <span className="px-2 py-0.5 rounded-full bg-gray-50 border">Encoding: {field.encoding ? ENCODING_LABEL[field.encoding] : "Unspecified"}</span>
+                <span className="px-2 py-0.5 rounded-full bg-gray-50 border">TZ: {field.tz_behavior ? TZ_LABEL[field.tz_behavior] : "Unspecified"}</span>
+                <span className="px-2 py-0.5 rounded-full bg-gray-50 border">Precision: {field.precision ? PRECISION_LABEL[field.precision] : "Unspecified"}</span>
+              </div>
+              {field.notes && <p className="mt-2 text-sm text-gray-600">{field.notes}</p>}
+              {warnings.length > 0 && (
+                <ul className="mt-3 space-y-1 rounded-xl border border-amber-300 bg-amber-50 p-3 text-sm text-amber-900 list-disc list-inside">
+                  {warnings.map((w) => (<li key={w}>{w}</li>))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {!value.trim() ? (
+            <p className="text-base text-gray-500">Paste a raw value to decode it. Nothing leaves the browser.</p>
+          ) : encoding === "auto" ? (
+            candidates.length === 0 ? (
+              <p className="text-base text-gray-500">No encoding yields a date between 1990 and 2100. Pick an encoding to see the literal reading.</p>
+            ) : (
+              <div className="space-y-2">
+                {candidates.map((c) => (
+                  <div key={c.encoding} className="flex items-start gap-2">
+                    <div className="flex-1"><Reading label={ENCODING_LABEL[c.encoding]} decoded={c.decoded} zone={zone} /></div>
+                    <button onClick={() => navigate({ encoding: c.encoding })} className="rounded-xl border px-3 py-1.5 text-sm hover:bg-gray-100">Use</button>
+                  </div>
+                ))}
+              </div>
+            )
+          ) : !result?.ok ? (
+            <p className="text-base text-red-600">{result?.error}</p>
+          ) : (
+            <div className="space-y-3">
+              <Reading label={ENCODING_LABEL[encoding]} decoded={result.value} zone={zone} />
+              <div className="border rounded-xl p-3 space-y-2">
+                <label className="flex items-center gap-2 text-sm">
+                  <input type="checkbox" checked={asLocal} onChange={(e) => setWallClock(e.target.checked)} />
+                  Value is local time on the source host
+                </label>
+                {asLocal && (
+                  <>
+                    <label className="sr-only" htmlFor="ts-host-zone">Host time zone</label>
+                    <select id="ts-host-zone" className="w-full rounded-xl border px-3 py-1.5 bg-white" value={host} onChange={(e) => setHostZone(e.target.value)}>
+                      {zones.map((z) => (<option key={z} value={z}>{z}</option>))}
+                    </select>
+                    <Reading label={`Read as wall-clock time in ${host}`} decoded={fromWallClock(result.value, host)} zone={zone} />
+                  </>
+                )}
+              </div>
+            </div>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
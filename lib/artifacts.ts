@@ -0,0 +1,33 @@
+import commandVariables from "@/data/command-variables.json";
+import seed from "@/data/seed.json";
+import { ArtifactListSchema, CommandVariableListSchema, type Artifact, type CommandVariable, type Location } from "@/lib/schema";
+
+// `npm run validate-data` (run before every build) reports problems in detail;
+// parsing here guarantees the UI never renders data that slipped past it.
+export const SEED: Artifact[] = ArtifactListSchema.parse(seed);
+export const COMMAND_VARIABLES: CommandVariable[] = CommandVariableListSchema.parse(commandVariables);
+
+/** `from` is the catalogue to search; pages pass the one with local artifacts merged in (see useCatalogue). */
+export function getArtifactBySlug(slug: string, from: Artifact[] = SEED): Artifact | undefined { return from.find((a) => a.slug === slug); }
+
+/** Resolve slugs (e.g. from `?artifact=` params) in order, dropping unknown ones. */
+export function getArtifactsBySlugs(slugs: string[], from: Artifact[] = SEED): Artifact[] {
+  return slugs.map((slug) => getArtifactBySlug(slug, from)).filter((a): a is Artifact => a !== undefined);
+}
+
+/** Static page of an artifact; local ones (see lib/overlay.ts) have none and open in the explorer instead. */
+export function artifactHref(slug: string): string {
+  return SEED.some((a) => a.slug === slug) ? `/artifacts/${slug}/` : `/?artifact=${encodeURIComponent(slug)}`;
+}
+
+/** Locations grouped by scope (tool name for RMM/exfil entries), groups sorted case-insensitively. */
+export function groupLocationsByScope(locations: Location[]): Array<[string, Location[]]> {
+  const groups = locations.reduce<Record<string, Location[]>>((acc, loc) => {
+    const key = (loc.scope ?? "General").trim();
+    (acc[key] ||= []).push(loc);
+    return acc;
+  }, {});
+  return Object.keys(groups)
+    .sort((a, b) => a.toLowerCase().localeCompare(b.toLowerCase()))
+    .map((k) => [k, groups[k]]);
+}
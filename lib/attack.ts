@@ -0,0 +1,60 @@
+import attackData from "@/data/attack.json";
+import { AttackMatrixSchema, type Artifact, type AttackMatrix } from "@/lib/schema";
+
+// Offline copy of the ATT&CK enterprise matrix, generated by `npm run build-attack`; validated by `npm run validate-data`.
+export const ATTACK: AttackMatrix = AttackMatrixSchema.parse(attackData);
+
+export type Tactic = AttackMatrix["tactics"][number];
+export type Technique = AttackMatrix["techniques"][number] & { parent?: string };
+
+const TECHNIQUES = new Map<string, Technique>(ATTACK.techniques.map((t) => [t.id, t.id.includes(".") ? { ...t, parent: t.id.split(".")[0] } : t]));
+const TACTICS = new Map(ATTACK.tactics.map((t) => [t.id, t]));
+
+export function getTechnique(id: string): Technique | undefined { return TECHNIQUES.get(id); }
+export function getTactic(id: string): Tactic | undefined { return TACTICS.get(id); }
+
+/** Tactic ids of a technique; sub-techniques inherit their parent's. */
+export function tacticsOf(id: string): string[] { return TECHNIQUES.get(id.split(".")[0])?.tactics ?? []; }
+
+/** Full "Parent: Sub-technique" name, as ATT&CK writes it. */
+export function techniqueLabel(id: string): string {
+  const t = TECHNIQUES.get(id);
+  if (!t) return id;
+  return t.parent ? `${TECHNIQUES.get(t.parent)?.name ?? t.parent}: ${t.name}` : t.name;
+}
+
+export function attackUrl(id: string): string {
+  return id.startsWith("TA") ? `https://attack.mitre.org/tactics/${id}/` : `https://attack.mitre.org/techniques/${id.replace(".", "/")}/`;
+}
+
+export function attackMatrixHref(techniqueId?: string): string {
+  return techniqueId ? `/attack/?technique=${encodeURIComponent(techniqueId)}` : "/attack/";
+}
+
+export type MatrixCell = { technique: Technique; artifacts: Artifact[]; subtechniques: Array<{ technique: Technique; artifacts: Artifact[] }> };
+export type MatrixColumn = { tactic: Tactic; cells: MatrixCell[] };
+
+/**
+ * One column per tactic, one cell per technique. A parent cell counts the
+ * artifacts mapped to it or to any of its sub-techniques, so a technique is
+ * only a gap when nothing in the catalogue gives evidence for any variant.
+ */
+export function attackMatrix(artifacts: Artifact[]): MatrixColumn[] {
+  const evidence = new Map<string, Artifact[]>();
+  for (const a of artifacts) for (const id of a.attack?.techniques ?? []) evidence.set(id, [...(evidence.get(id) ?? []), a]);
+
+  const parents = ATTACK.techniques.filter((t) => !t.id.includes("."));
+  return ATTACK.tactics.map((tactic) => ({
+    tactic,
+    cells: parents
+      .filter((t) => t.tactics?.includes(tactic.id))
+      .map((t) => {
+        const subtechniques = ATTACK.techniques
+          .filter((s) => s.id.startsWith(`${t.id}.`))
+          .map((s) => ({ technique: TECHNIQUES.get(s.id)!, artifacts: evidence.get(s.id) ?? [] }));
+        const all = [...(evidence.get(t.id) ?? []), ...subtechniques.flatMap((s) => s.artifacts)];
+        return { technique: t, subtechniques, artifacts: all.filter((a, i) => all.indexOf(a) === i) };
+      })
+      .sort((a, b) => a.technique.name.localeCompare(b.technique.name)),
+  }));
+}
@@ -0,0 +1,90 @@
+import { z } from "zod";
+import type { Artifact } from "@/lib/schema";
+
+// A case is a named investigation that tracks, per artifact, which collection
+// steps and checks are done. Cases live in browser storage and travel between
+// analysts as exported JSON, so the format is validated like seed data.
+
+export const StepStateSchema = z.object({
+  done: z.boolean(),
+  doneAt: z.string().datetime().optional(),   // ISO time the step was ticked
+  note: z.string().optional(),
+  noteAt: z.string().datetime().optional(),   // ISO time the note was last edited
+});
+
+export const CaseSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+  artifacts: z.array(z.string()),                                   // artifact ids, in the order they were added
+  progress: z.record(z.record(StepStateSchema)),                    // artifact id -> step key -> state
+});
+
+export const CasesFileSchema = z.object({
+  version: z.literal(1),
+  cases: z.array(CaseSchema),
+});
+
+export type StepState = z.infer<typeof StepStateSchema>;
+export type Case = z.infer<typeof CaseSchema>;
+export type CasesFile = z.infer<typeof CasesFileSchema>;
+
+export type ChecklistItem = { key: string; section: string; text: string };
+
+/**
+ * Every trackable step of an artifact. Keys are section + position, so they
+ * stay stable as long as existing steps are not reordered in seed.json.
+ */
+export function checklistFor(a: Artifact): ChecklistItem[] {
+  const items: ChecklistItem[] = [];
+  // Evidence sources get a "collected" tick even when they document no explicit steps.
+  if (a.locations?.length) items.push({ key: "collected", section: "Collection", text: "Evidence collected and preserved" });
+  const add = (prefix: string, section: string, steps?: string[]) =>
+    steps?.forEach((text, i) => items.push({ key: `${prefix}:${i}`, section, text }));
+  add("gui", "GUI Log Collection", a.gui_log_collection_steps);
+  a.collection_steps?.forEach((g, gi) => add(`steps.${gi}`, g.category, g.steps));
+  add("due", "Due Diligence Checks", a.due_diligence_checks);
+  add("additional", "Additional Checks", a.additional_checks);
+  return items;
+}
+
+export type Progress = { done: number; total: number };
+
+export function artifactProgress(c: Case, a: Artifact): Progress {
+  const items = checklistFor(a);
+  const state = c.progress[a.id] ?? {};
+  return { done: items.filter((i) => state[i.key]?.done).length, total: items.length };
+}
+
+export function caseProgress(c: Case, artifacts: Artifact[]): Progress {
+  return artifacts
+    .filter((a) => c.artifacts.includes(a.id))
+    .map((a) => artifactProgress(c, a))
+    .reduce((acc, p) => ({ done: acc.done + p.done, total: acc.total + p.total }), { done: 0, total: 0 });
+}
+
+export function percent(p: Progress): number { return p.total === 0 ? 0 : Math.round((p.done / p.total) * 100); }
+
+export function newCase(name: string, now = new Date()): Case {
+  const stamp = now.toISOString();
+  const id = `case-${now.getTime().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+  return { id, name: name.trim(), createdAt: stamp, updatedAt: stamp, artifacts: [], progress: {} };
+}
+
+export function exportCases(cases: Case[]): string {
+  const file: CasesFile = { version: 1, cases };
+  return JSON.stringify(file, null, 2);
+}
+
+/** Parse an exported file; throws with a readable message when it is not a valid cases export. */
+export function parseCasesFile(text: string): Case[] {
+  let json: unknown;
+  try { json = JSON.parse(text); } catch { throw new Error("File is not valid JSON."); }
+  const result = CasesFileSchema.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Not a cases export: ${issue.path.join(".") || "(root)"} ${issue.message}`);
+  }
+  return result.data.cases;
+}
@@ -0,0 +1,122 @@
+import { PLACEHOLDER_PATTERN, type Artifact, type CommandVariable, type ParserRef, type Platform } from "@/lib/schema";
+
+/**
+ * Renders `{placeholder}` templates in ParserRef.command_example. A value
+ * comes from the analyst first, then the parser's own `variables`, then the
+ * global default in data/command-variables.json; values may reference other
+ * variables. Anything still unset is left as `{name}` so it stays visible.
+ */
+export type CommandValues = Record<string, string>;
+
+export type CommandTarget = "ps1" | "sh" | "cmd";
+export const COMMAND_TARGETS: CommandTarget[] = ["ps1", "sh", "cmd"];
+
+export function placeholdersIn(template: string): string[] {
+  return Array.from(new Set(Array.from(template.matchAll(PLACEHOLDER_PATTERN), (m) => m[1])));
+}
+
+function rawValue(name: string, parser: ParserRef, values: CommandValues, defs: CommandVariable[]): string | undefined {
+  if (values[name]?.trim()) return values[name].trim();
+  return parser.variables?.[name] ?? defs.find((d) => d.name === name)?.default;
+}
+
+function expand(template: string, parser: ParserRef, values: CommandValues, defs: CommandVariable[], stack: string[]): string {
+  return template.replace(PLACEHOLDER_PATTERN, (whole, name: string) => {
+    const raw = stack.includes(name) ? undefined : rawValue(name, parser, values, defs);   // a cycle leaves the placeholder as-is
+    return raw === undefined ? whole : expand(raw, parser, values, defs, [...stack, name]);
+  });
+}
+
+export function renderCommand(parser: ParserRef, values: CommandValues, defs: CommandVariable[]): string {
+  return expand(parser.command_example ?? "", parser, values, defs, []);
+}
+
+/** Variables a set of parsers depends on, including those only reached through defaults, in definition order. */
+export function variablesUsedBy(parsers: ParserRef[], values: CommandValues, defs: CommandVariable[]): CommandVariable[] {
+  const used = new Set<string>();
+  const visit = (template: string, parser: ParserRef) => {
+    for (const name of placeholdersIn(template)) {
+      if (used.has(name)) continue;
+      used.add(name);
+      const raw = rawValue(name, parser, values, defs);
+      if (raw) visit(raw, parser);
+      // A global default can be shadowed by the parser's own value; its references still matter once the analyst overrides it.
+      const fallback = defs.find((d) => d.name === name)?.default;
+      if (fallback) visit(fallback, parser);
+    }
+  };
+  parsers.forEach((p) => visit(p.command_example ?? "", p));
+  return defs.filter((d) => used.has(d.name));
+}
+
+/** Inline check for an analyst-entered value; returns a message, or null when the value is acceptable. */
+export function validateValue(def: CommandVariable, value: string): string | null {
+  const v = value.trim();
+  if (!v) return null;
+  switch (def.type) {
+    case "date":
+      return /^\d{4}-\d{2}-\d{2}$/.test(v) && !Number.isNaN(Date.parse(v)) ? null : "Use YYYY-MM-DD";
+    case "email":
+      return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(v) ? null : "Not an email address";
+    case "path":
+      return /["\r\n]/.test(v) ? "Paths cannot contain quotes or line breaks" : null;
+    default:
+      return /[\r\n]/.test(v) ? "Line breaks are not allowed" : null;
+  }
+}
+
+// ---------- Scripts ----------
+
+const COMMENT: Record<CommandTarget, string> = { ps1: "#", sh: "#", cmd: "REM" };
+
+// Commands of Windows artifacts are written for a Windows prompt, all others for a POSIX shell;
+// only a command run in another shell than its own needs escaping.
+function writtenFor(platform: Platform): CommandTarget {
+  return platform === "windows" ? "cmd" : "sh";
+}
+
+// `$` (e.g. in \$MFT) is literal at a Windows prompt but expands in PowerShell and sh. In sh,
+// backslashes are escapes outside double quotes; inside them only before \ $ ` and ", so paths
+// in quotes keep their backslashes as they are.
+function escapeFor(target: CommandTarget, platform: Platform, parser: ParserRef, command: string): string {
+  if (writtenFor(platform) !== "cmd" || target === "cmd") return command;
+  if (target === "ps1") return parser.runs_in === "powershell" ? command : command.replace(/\$(?=[\w{])/g, "`$");
+  return command.split(/("[^"]*")/).map((part, i) => part.replace(i % 2 ? /\\(?=[\\$`"])|[$`]/g : /[\\$`]/g, "\\$&")).join("");
+}
+
+function scriptLines(target: CommandTarget, platform: Platform, parser: ParserRef, command: string): string[] {
+  const rem = COMMENT[target];
+  const runsIn = parser.runs_in ?? "shell";
+  const lines = [`${rem} ${parser.tool_name}`];
+  const missing = placeholdersIn(command);
+  if (missing.length) lines.push(`${rem} Set before running: ${missing.map((m) => `{${m}}`).join(", ")}`);
+  if (runsIn === "query") lines.push(`${rem} Run in ${parser.tool_name}, not in a shell:`, `${rem}   ${command}`);
+  else if (runsIn === "powershell" && target !== "ps1") lines.push(`${rem} PowerShell only (see the .ps1 script):`, `${rem}   ${command}`);
+  else lines.push(escapeFor(target, platform, parser, command));
+  return lines;
+}
+
+export type ScriptOptions = { title: string; generatedAt?: Date };
+
+/** One script for every command of `artifacts`, grouped per artifact. */
+export function buildScript(target: CommandTarget, artifacts: Artifact[], values: CommandValues, defs: CommandVariable[], opts: ScriptOptions): string {
+  const rem = COMMENT[target];
+  const shebang = { ps1: [], sh: ["#!/bin/sh"], cmd: ["@echo off"] }[target];
+  const out: string[] = [
+    ...shebang,
+    `${rem} ${opts.title}`,
+    `${rem} Generated ${(opts.generatedAt ?? new Date()).toISOString().slice(0, 10)} from DFIR Artifact Explorer`,
+  ];
+  const parsers = artifacts.flatMap((a) => a.parsers ?? []);
+  for (const def of variablesUsedBy(parsers, values, defs)) {
+    const value = values[def.name]?.trim() || def.default || (parsers.some((p) => p.variables?.[def.name]) ? "(per command)" : "(unset)");
+    out.push(`${rem}   ${def.name} = ${value}`);
+  }
+  for (const a of artifacts) {
+    const withCommands = (a.parsers ?? []).filter((p) => p.command_example);
+    if (withCommands.length === 0) continue;
+    out.push("", `${rem} ---- ${a.name} ----`);
+    withCommands.forEach((p) => out.push(...scriptLines(target, a.platform, p, renderCommand(p, values, defs))));
+  }
+  return out.join(target === "cmd" ? "\r\n" : "\n") + (target === "cmd" ? "\r\n" : "\n");
+}
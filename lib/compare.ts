@@ -0,0 +1,41 @@
+import { techniqueLabel } from "@/lib/attack";
+import { platformLabel } from "@/lib/platforms";
+import type { Artifact } from "@/lib/schema";
+import { ENCODING_LABEL, PRECISION_LABEL, TZ_LABEL } from "@/lib/timestamps";
+import { artifactListQuery } from "@/lib/urlState";
+import { uniq } from "@/lib/utils";
+
+/** One aligned row of the compare table: a label plus the values each artifact contributes. */
+export type CompareRow = { key: string; label: string; mono?: boolean; values: (a: Artifact) => string[] };
+
+export const COMPARE_ROWS: CompareRow[] = [
+  { key: "platform", label: "Platform", values: (a) => [platformLabel(a.platform)] },
+  { key: "class", label: "Class", values: (a) => (a.artifact_class ? [a.artifact_class] : []) },
+  { key: "tactics", label: "Tactics", values: (a) => a.tactic_tags ?? [] },
+  { key: "attack", label: "ATT&CK techniques", values: (a) => (a.attack?.techniques ?? []).map((id) => `${id} ${techniqueLabel(id)}`) },
+  { key: "locations", label: "Locations", mono: true, values: (a) => (a.locations ?? []).map((l) => l.path) },
+  { key: "timestamps", label: "Timestamps", values: (a) => (a.timestamps ?? []).map((t) => t.name) },
+  { key: "tz", label: "Timestamp TZ behaviour", values: (a) => uniq((a.timestamps ?? []).map((t) => (t.tz_behavior ? TZ_LABEL[t.tz_behavior] : "Unspecified"))) },
+  { key: "precision", label: "Timestamp precision", values: (a) => uniq((a.timestamps ?? []).map((t) => (t.precision ? PRECISION_LABEL[t.precision] : "Unspecified"))) },
+  { key: "encoding", label: "Timestamp encoding", values: (a) => uniq((a.timestamps ?? []).map((t) => (t.encoding ? ENCODING_LABEL[t.encoding] : "Unspecified"))) },
+  { key: "parsers", label: "Parsers", values: (a) => (a.parsers ?? []).map((p) => p.tool_name) },
+  { key: "collection", label: "Collection methods", values: (a) => a.collection_methods ?? [] },
+  { key: "validation", label: "Validation / Corroboration", values: (a) => a.validation ?? [] },
+  { key: "pitfalls", label: "Known pitfalls", values: (a) => a.known_pitfalls ?? [] },
+];
+
+export type CompareCell = Array<{ text: string; shared: boolean }>;
+
+/**
+ * Evaluate a row for every artifact. A value is `shared` when every compared
+ * artifact has it (case-insensitive); the row `differs` when any value is not.
+ */
+export function compareRow(row: CompareRow, artifacts: Artifact[]): { cells: CompareCell[]; differs: boolean } {
+  const values = artifacts.map((a) => row.values(a));
+  const sets = values.map((vs) => new Set(vs.map((v) => v.toLowerCase())));
+  const cells = values.map((vs) => vs.map((text) => ({ text, shared: sets.every((s) => s.has(text.toLowerCase())) })));
+  const differs = cells.some((c) => c.some((v) => !v.shared)) || (sets.some((s) => s.size === 0) && sets.some((s) => s.size > 0));
+  return { cells, differs };
+}
+
+export function compareHref(slugs: string[]): string { return `/compare/${artifactListQuery(slugs)}`; }
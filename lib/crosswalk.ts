@@ -0,0 +1,171 @@
+import { z } from "zod";
+import timelineFields from "@/data/timeline-fields.json";
+import { TimelineFieldIdSchema, TimelineFieldListSchema, type Artifact, type OutputField, type ParserRef, type TimelineField } from "@/lib/schema";
+
+/**
+ * Parser output columns mapped onto one normalized vocabulary (data/timeline-fields.json):
+ * the crosswalk of which artifact, tool and column provides a field, and the column
+ * mappings that merge the tools' CSV output into one super-timeline.
+ */
+
+export const TIMELINE_FIELDS: TimelineField[] = TimelineFieldListSchema.parse(timelineFields);
+
+const BY_ID = new Map(TIMELINE_FIELDS.map((f) => [f.id, f]));
+
+export function getTimelineField(id: string): TimelineField | undefined { return BY_ID.get(id); }
+
+/** Both spellings of an output field (plain description, or mapped) in one shape. */
+export function outputField(value: OutputField): { field?: string; description?: string } {
+  return typeof value === "string" ? { description: value } : value;
+}
+
+export function hasColumnMapping(p: ParserRef): boolean {
+  return Object.values(p.output_fields ?? {}).some((v) => typeof v !== "string");
+}
+
+export function crosswalkHref(field?: string): string {
+  return field ? `/crosswalk/?field=${encodeURIComponent(field)}` : "/crosswalk/";
+}
+
+// ---------- Crosswalk ----------
+
+export type CrosswalkSource = { artifact: Artifact; tool: string; column: string; description?: string };
+export type CrosswalkRow = { field: TimelineField; sources: CrosswalkSource[] };
+
+/** Every vocabulary field, in file order, with the columns that provide it. */
+export function crosswalk(artifacts: Artifact[]): CrosswalkRow[] {
+  const sources = new Map<string, CrosswalkSource[]>();
+  for (const a of artifacts) {
+    for (const p of a.parsers ?? []) {
+      for (const [column, value] of Object.entries(p.output_fields ?? {})) {
+        const { field, description } = outputField(value);
+        if (field) sources.set(field, [...(sources.get(field) ?? []), { artifact: a, tool: p.tool_name, column, description }]);
+      }
+    }
+  }
+  return TIMELINE_FIELDS.map((field) => ({ field, sources: sources.get(field.id) ?? [] }));
+}
+
+// ---------- Column mappings ----------
+
+export const ColumnMappingSchema = z.object({
+  version: z.literal(1),
+  artifact: z.string().min(1),                  // artifact id
+  name: z.string().min(1),                      // artifact name, starts each timeline message
+  tool: z.string().min(1),                      // parser tool_name
+  columns: z.record(TimelineFieldIdSchema),     // CSV column -> normalized field
+  timestamps: z.record(z.string().min(1)),      // date columns -> timestamp_desc of the events they become
+});
+
+export const ColumnMappingFileSchema = z.union([ColumnMappingSchema, z.array(ColumnMappingSchema)]);
+
+export type ColumnMapping = z.infer<typeof ColumnMappingSchema>;
+
+export function columnMapping(a: Artifact, p: ParserRef): ColumnMapping {
+  const columns: Record<string, string> = {};
+  const timestamps: Record<string, string> = {};
+  for (const [column, value] of Object.entries(p.output_fields ?? {})) {
+    if (typeof value === "string") continue;
+    columns[column] = value.field;
+    const field = getTimelineField(value.field);
+    if (field?.type === "date") timestamps[column] = `${field.label} (${column})`;
+  }
+  return { version: 1, artifact: a.id, name: a.name, tool: p.tool_name, columns, timestamps };
+}
+
+/** Mappings for every parser that maps at least one column. */
+export function columnMappings(artifacts: Artifact[]): ColumnMapping[] {
+  return artifacts.flatMap((a) => (a.parsers ?? []).filter(hasColumnMapping).map((p) => columnMapping(a, p)));
+}
+
+export function columnMappingFile(mappings: ColumnMapping | ColumnMapping[]): string {
+  return JSON.stringify(mappings, null, 2) + "\n";
+}
+
+// ---------- Super-timeline ----------
+
+/** The mapping that names most of a CSV's columns; it must know at least one timestamp column. */
+export function pickMapping(header: string[], mappings: ColumnMapping[]): ColumnMapping | undefined {
+  let best: ColumnMapping | undefined;
+  let bestScore = 0;
+  for (const m of mappings) {
+    if (!Object.keys(m.timestamps).some((c) => header.includes(c))) continue;
+    const score = Object.keys(m.columns).filter((c) => header.includes(c)).length;
+    if (score > bestScore) { best = m; bestScore = score; }
+  }
+  return best;
+}
+
+const CSV_TIMESTAMP = /^(\d{4}-\d{2}-\d{2})[ T](\d{2}:\d{2}:\d{2})(?:\.(\d+))?\s*(Z|[+-]\d{2}:?\d{2})?$/i;
+
+/**
+ * A CSV timestamp as ISO 8601 UTC with six fractional digits, so timestamps sort as text.
+ * Values without a zone are read as UTC, which is what the Zimmerman tools write; zero dates
+ * (0001-01-01, 1601-01-01) mean "not set", and they and impossible dates give undefined.
+ */
+export function toIsoTimestamp(value: string): string | undefined {
+  const m = value.trim().match(CSV_TIMESTAMP);
+  if (!m) return undefined;
+  const [, date, time, digits, zone] = m;
+  if (date === "0001-01-01" || date === "1601-01-01") return undefined;
+  // Date.parse rolls 30 February over into March and takes 24:00, so the fields must survive a round trip.
+  const utc = Date.parse(`${date}T${time}Z`);
+  if (Number.isNaN(utc) || new Date(utc).toISOString().slice(0, 19) !== `${date}T${time}`) return undefined;
+  const ms = !zone || zone.toUpperCase() === "Z" ? utc : Date.parse(`${date}T${time}${zone.replace(/^([+-]\d{2})(\d{2})$/, "$1:$2")}`);
+  return Number.isNaN(ms) ? undefined : `${new Date(ms).toISOString().slice(0, 19)}.${(digits ?? "").slice(0, 6).padEnd(6, "0")}Z`;
+}
+
+// What a timeline message names, first present wins.
+const MESSAGE_FIELDS = ["process.executable", "file.path", "process.name", "file.name", "evidence.path", "event.code"];
+
+export type TimelineEvent = { datetime: string; timestamp_desc: string; message: string; artifact: string; tool: string; fields: Record<string, string> };
+
+/** One event per filled-in timestamp column of every row, in Timesketch's datetime/timestamp_desc/message shape. */
+export function timelineEvents(mapping: ColumnMapping, rows: Array<Record<string, string>>): TimelineEvent[] {
+  const events: TimelineEvent[] = [];
+  for (const row of rows) {
+    const fields: Record<string, string> = {};
+    for (const [column, field] of Object.entries(mapping.columns)) {
+      if (!mapping.timestamps[column] && row[column] && !fields[field]) fields[field] = row[column];
+    }
+    const subject = MESSAGE_FIELDS.map((f) => fields[f]).find(Boolean);
+    const message = subject ? `${mapping.name}: ${subject}` : mapping.name;
+    for (const [column, desc] of Object.entries(mapping.timestamps)) {
+      const datetime = toIsoTimestamp(row[column] ?? "");
+      if (datetime) events.push({ datetime, timestamp_desc: desc, message, artifact: mapping.artifact, tool: mapping.tool, fields });
+    }
+  }
+  return events;
+}
+
+/** RFC 4180 CSV: quoted fields may hold commas, quotes and line breaks; a leading BOM is dropped. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  const s = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  for (let i = 0; i < s.length; i++) {
+    const c = s[i];
+    if (quoted) {
+      if (c === '"' && s[i + 1] === '"') { cell += '"'; i++; }
+      else if (c === '"') quoted = false;
+      else cell += c;
+    } else if (c === '"') quoted = true;
+    else if (c === ",") { row.push(cell); cell = ""; }
+    else if (c === "\n" || c === "\r") {
+      if (c === "\r" && s[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else cell += c;
+  }
+  if (cell || row.length) { row.push(cell); rows.push(row); }
+  return rows;
+}
+
+export function toCsv(rows: string[][]): string {
+  const quote = (v: string) => (/[",\r\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v);
+  return rows.map((r) => r.map(quote).join(",")).join("\n") + "\n";
+}
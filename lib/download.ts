@@ -0,0 +1,13 @@
+/** Save generated text (case exports, playbooks, scripts) as a file without a server round-trip. */
+export function downloadText(filename: string, text: string, type = "text/plain") {
+  const url = URL.createObjectURL(new Blob([text], { type: `${type};charset=utf-8` }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export function fileSafe(name: string, fallback = "case") {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || fallback;
+}
@@ -0,0 +1,126 @@
+import { ATTACK } from "@/lib/attack";
+import { COMMAND_VARIABLES, SEED } from "@/lib/artifacts";
+import { TIMELINE_FIELDS } from "@/lib/crosswalk";
+import { PLATFORM_DEFS } from "@/lib/platforms";
+import { ArtifactSchema, validateArtifacts, type Artifact, type DataIssue } from "@/lib/schema";
+import { uniq } from "@/lib/utils";
+
+/**
+ * Pure helpers behind the artifact editor: drafts, the values its dropdowns
+ * offer, validation against the rest of the catalogue, and a JSON Patch for
+ * data/seed.json (the entry itself is formatted by lib/seedFormat.ts).
+ */
+
+export function emptyDraft(): Artifact {
+  return { id: "", name: "", slug: "", platform: "windows", summary: "" };
+}
+
+export function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+}
+
+// ---------- Options drawn from the catalogue ----------
+
+const sorted = (xs: Array<string | undefined>) => uniq(xs.filter((x): x is string => !!x?.trim())).sort((a, b) => a.localeCompare(b));
+
+export const EDITOR_OPTIONS = {
+  tactics: sorted([...ATTACK.tactics.map((t) => t.name), ...SEED.flatMap((a) => a.tactic_tags ?? [])]),
+  classes: sorted(SEED.map((a) => a.artifact_class)),
+  scopes: sorted(["system", "user", ...SEED.flatMap((a) => a.locations?.map((l) => l.scope) ?? [])]),
+  tools: sorted(SEED.flatMap((a) => a.parsers?.map((p) => p.tool_name) ?? [])),
+  eventSources: sorted(SEED.flatMap((a) => a.event_ids?.map((g) => g.source) ?? [])),
+  stepCategories: sorted(SEED.flatMap((a) => a.collection_steps?.map((s) => s.category) ?? [])),
+  collectionMethods: sorted(SEED.flatMap((a) => a.collection_methods ?? [])),
+};
+
+// ---------- Cleaning ----------
+
+// Form rows start out blank; an entry in seed.json leaves out whatever was not filled in.
+function prune(value: unknown): unknown {
+  if (typeof value === "string") return value.trim() ? value : undefined;
+  if (Array.isArray(value)) {
+    const items = value.map(prune).filter((v) => v !== undefined);
+    return items.length ? items : undefined;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value).map(([k, v]) => [k, prune(v)] as const).filter(([, v]) => v !== undefined);
+    return entries.length ? Object.fromEntries(entries) : undefined;
+  }
+  return value;
+}
+
+const KEY_ORDER = Object.keys(ArtifactSchema.shape);
+const REQUIRED = ["id", "name", "slug", "platform", "summary"];
+
+/** The draft without blank fields and rows, keys in schema order; required fields stay so validation can flag them. */
+export function cleanArtifact(draft: Artifact): Artifact {
+  const pruned = (prune(draft) ?? {}) as Record<string, unknown>;
+  const out: Record<string, unknown> = {};
+  for (const key of KEY_ORDER) {
+    if (pruned[key] !== undefined) out[key] = pruned[key];
+    else if (REQUIRED.includes(key)) out[key] = "";
+  }
+  return out as Artifact;
+}
+
+// ---------- Validation ----------
+
+export type FieldIssue = { field: string; message: string };   // field: path inside the artifact, e.g. "locations[0].path"
+export type DraftReport = { errors: FieldIssue[]; warnings: FieldIssue[]; elsewhere: DataIssue[] };
+
+/**
+ * Validate `artifact` as entry `index` of the catalogue (appended when undefined), with the
+ * same checks as `npm run validate-data`. Issues it causes in other entries, such as a
+ * relation pointing at an id that was renamed, are returned as `elsewhere`.
+ */
+export function validateDraft(artifact: Artifact, index?: number, catalogue: Artifact[] = SEED): DraftReport {
+  const list = [...catalogue];
+  const at = index ?? list.length;
+  list[at] = artifact;
+  const { errors, warnings } = validateArtifacts(list, { commandVariables: COMMAND_VARIABLES, attack: ATTACK, platforms: PLATFORM_DEFS, timelineFields: TIMELINE_FIELDS });
+  const prefix = `$[${at}]`;
+  const own = (issues: DataIssue[]) => issues
+    .filter((i) => i.path === prefix || i.path.startsWith(`${prefix}.`) || i.path.startsWith(`${prefix}[`))
+    .map((i) => ({ field: i.path.slice(prefix.length).replace(/^\./, ""), message: i.message }));
+  return { errors: own(errors), warnings: own(warnings), elsewhere: errors.filter((i) => !i.path.startsWith(prefix)) };
+}
+
+/** Issues for one field and everything under it. */
+export function issuesAt(issues: FieldIssue[], field: string): FieldIssue[] {
+  return issues.filter((i) => i.field === field || i.field.startsWith(`${field}.`) || i.field.startsWith(`${field}[`));
+}
+
+// ---------- Output ----------
+
+export type PatchOp =
+  | { op: "test"; path: string; value: unknown }
+  | { op: "add" | "replace"; path: string; value: unknown }
+  | { op: "remove"; path: string };
+
+/**
+ * RFC 6902 JSON Patch against data/seed.json: field-level operations on the
+ * edited entry (guarded by a test of its original id), or one append for a new artifact.
+ */
+export function seedPatch(artifact: Artifact, original?: { index: number; artifact: Artifact }): PatchOp[] {
+  if (!original) return [{ op: "add", path: "/-", value: artifact }];
+  const base = `/${original.index}`;
+  const before = cleanArtifact(original.artifact) as Record<string, unknown>;
+  const after = artifact as Record<string, unknown>;
+  const ops: PatchOp[] = [{ op: "test", path: `${base}/id`, value: original.artifact.id }];
+  for (const key of KEY_ORDER) {
+    const path = `${base}/${key}`;
+    if (after[key] === undefined && before[key] !== undefined) ops.push({ op: "remove", path });
+    else if (after[key] !== undefined && before[key] === undefined) ops.push({ op: "add", path, value: after[key] });
+    else if (JSON.stringify(after[key]) !== JSON.stringify(before[key])) ops.push({ op: "replace", path, value: after[key] });
+  }
+  return ops;
+}
+
+/** Top-level fields a patch touches, for the "what changed" summary. */
+export function changedFields(ops: PatchOp[]): string[] {
+  return ops.filter((o) => o.op !== "test").map((o) => o.path.split("/")[2] ?? "");
+}
+
+export function editorHref(slug?: string): string {
+  return slug ? `/editor/?artifact=${encodeURIComponent(slug)}` : "/editor/";
+}
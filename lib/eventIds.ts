@@ -0,0 +1,83 @@
+import type { Artifact, EventIdGroup } from "@/lib/schema";
+
+/**
+ * Reverse index from (log source, event ID) to the artifact entries that
+ * document it, plus the ID-list parsing behind lookups and batch coverage.
+ */
+export type EventRef = { artifact: Artifact; group: EventIdGroup; title?: string };
+export type EventEntry = { key: string; source: string; id: number; refs: EventRef[]; titles: string[]; conflict: boolean; unverified: boolean };
+
+// Event IDs are 16-bit on Windows; anything larger in a paste is a count or a typo.
+const MAX_EVENT_ID = 65535;
+
+const normalizeTitle = (t: string) => t.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+export function eventIndex(artifacts: Artifact[]): EventEntry[] {
+  const byKey = new Map<string, EventEntry>();
+  for (const a of artifacts) {
+    for (const g of a.event_ids ?? []) {
+      for (const raw of g.ids) {
+        const id = Number(raw);
+        const key = `${g.source}#${id}`;
+        const entry = byKey.get(key) ?? { key, source: g.source, id, refs: [], titles: [], conflict: false, unverified: false };
+        entry.refs.push({ artifact: a, group: g, title: g.titles?.[raw] });
+        byKey.set(key, entry);
+      }
+    }
+  }
+  const entries = Array.from(byKey.values());
+  for (const e of entries) {
+    const titles = e.refs.flatMap((r) => (r.title ? [r.title] : []));
+    e.titles = Array.from(new Map(titles.map((t) => [normalizeTitle(t), t])).values());
+    // Two entries for the same event that name it differently usually mean one of them is wrong.
+    e.conflict = e.titles.length > 1;
+    // An entry without a title cannot be checked against the others, so no conflict is not agreement.
+    e.unverified = !e.conflict && e.refs.some((r) => !r.title);
+  }
+  return entries.sort((x, y) => x.id - y.id || x.source.localeCompare(y.source));
+}
+
+export type IdQuery = { ids: number[]; invalid: string[] };
+
+/** Parse "4624-4634, 4672" or a pasted column of IDs; tokens that are not IDs or ranges are returned as `invalid`. */
+export function parseIdList(text: string): IdQuery {
+  const ids = new Set<number>();
+  const invalid: string[] = [];
+  for (const token of text.split(/[\s,;]+/).filter(Boolean)) {
+    const m = token.match(/^(\d+)(?:-(\d+))?$/);
+    const from = m ? Number(m[1]) : NaN;
+    const to = m?.[2] ? Number(m[2]) : from;
+    if (!m || from > to || to > MAX_EVENT_ID) { invalid.push(token); continue; }
+    for (let id = from; id <= to; id++) ids.add(id);
+  }
+  return { ids: Array.from(ids).sort((a, b) => a - b), invalid };
+}
+
+/** [4626, 4627, 4628, 4635] -> "4626-4628, 4635" */
+export function compressIds(ids: number[]): string {
+  const sorted = Array.from(new Set(ids)).sort((a, b) => a - b);
+  const parts: string[] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    let j = i;
+    while (j + 1 < sorted.length && sorted[j + 1] === sorted[j] + 1) j++;
+    parts.push(j === i ? String(sorted[i]) : `${sorted[i]}-${sorted[j]}`);
+    i = j;
+  }
+  return parts.join(", ");
+}
+
+export type Coverage = { entries: EventEntry[]; covered: number[]; gaps: number[] };
+
+/** Index entries for the queried IDs (optionally in one log `source` only), and which IDs nothing documents. */
+export function coverage(index: EventEntry[], ids: number[], source?: string): Coverage {
+  const wanted = new Set(ids);
+  const entries = index.filter((e) => wanted.has(e.id) && (!source || e.source === source));
+  const found = new Set(entries.map((e) => e.id));
+  return { entries, covered: ids.filter((id) => found.has(id)), gaps: ids.filter((id) => !found.has(id)) };
+}
+
+export function eventIdsHref(q: string, source?: string): string {
+  const params = new URLSearchParams({ q });
+  if (source) params.set("source", source);
+  return `/event-ids/?${params.toString()}`;
+}
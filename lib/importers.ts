@@ -0,0 +1,371 @@
+import { z } from "zod";
+import type { Artifact, Location, ParserRef, Platform, Reference } from "@/lib/schema";
+import { mkapeParsers, mkapePaths, normalizePath, tkapeLocations, toKapePath, type Mkape, type Tkape } from "@/lib/kape";
+import { uniq } from "@/lib/utils";
+
+/**
+ * Maps community definitions (ForensicArtifacts YAML, KAPE targets and
+ * modules) onto the Artifact shape and merges them into the catalogue. The
+ * merge only ever adds: curated text on existing entries is never rewritten,
+ * and every addition is listed in a report for review.
+ */
+
+// ---------- ForensicArtifacts ----------
+
+const FaSourceSchema = z.object({
+  type: z.string().min(1),
+  attributes: z.record(z.unknown()).default({}),
+  supported_os: z.array(z.string()).optional(),
+}).passthrough();
+
+export const FaDefinitionSchema = z.object({
+  name: z.string().min(1),
+  doc: z.string().min(1),
+  sources: z.array(FaSourceSchema).min(1),
+  supported_os: z.array(z.string()).optional(),
+  urls: z.array(z.string()).optional(),
+  aliases: z.array(z.string()).optional(),
+}).passthrough();
+
+export type FaDefinition = z.infer<typeof FaDefinitionSchema>;
+
+const FA_OS: Record<string, Platform> = { Windows: "windows", Linux: "linux", Darwin: "macos" };
+
+// Knowledge-base variables (%%...%%) in FA paths, in the spelling our locations use.
+const FA_VARIABLES: Record<string, string> = {
+  "environ_systemroot": "C:\\Windows",
+  "environ_windir": "C:\\Windows",
+  "environ_systemdrive": "C:",
+  "environ_programfiles": "%ProgramFiles%",
+  "environ_programfilesx86": "%ProgramFiles(x86)%",
+  "environ_programdata": "%ProgramData%",
+  "environ_allusersprofile": "%ProgramData%",
+  "environ_allusersappdata": "%ProgramData%",
+  "users.appdata": "%APPDATA%",
+  "users.localappdata": "%LOCALAPPDATA%",
+  "users.temp": "%TEMP%",
+  "users.userprofile": "%USERPROFILE%",
+};
+
+const USER_SCOPED = /^(%(APPDATA|LOCALAPPDATA|TEMP|USERPROFILE)%|HKCU\\|NTUSER\.DAT\\|UsrClass\.dat\\|~\/)/i;
+
+// HKLM keys under a hive file are written the way the seed does (SYSTEM\..., SOFTWARE\...).
+function registryPath(key: string): string {
+  return key
+    .replace(/^HKEY_LOCAL_MACHINE\\(System|Software|SAM|Security)\\/i, (_, hive: string) => `${hive.toUpperCase()}\\`)
+    .replace(/^HKEY_LOCAL_MACHINE\\/i, "HKLM\\")
+    .replace(/^HKEY_USERS\\%%users\.sid%%\\/i, "HKCU\\")
+    .replace(/^HKEY_CURRENT_USER\\/i, "HKCU\\");
+}
+
+/** Expand FA variables and globs; undefined when a variable has no equivalent here. */
+function faPath(raw: string, platform: Platform): string | undefined {
+  let unknown = false;
+  const path = raw
+    .replace(/%%users\.homedir%%/g, platform === "windows" ? "%USERPROFILE%" : "~")
+    .replace(/%%([a-z_.]+)%%/gi, (m, name: string) => FA_VARIABLES[name.toLowerCase()] ?? ((unknown = true), m))
+    .replace(/([\\/])\*\*\d*$/, "$1");
+  return unknown ? undefined : path;
+}
+
+function referencesFrom(urls: string[] | undefined, title: string): Reference[] {
+  return (urls ?? []).flatMap((url) => {
+    try {
+      const { hostname, protocol } = new URL(url);
+      return protocol === "http:" || protocol === "https:" ? [{ title: `${title} (${hostname.replace(/^www\./, "")})`, url }] : [];
+    } catch {
+      return [];
+    }
+  });
+}
+
+export type ImportSource = "ForensicArtifacts" | "KAPE target" | "KAPE module";
+
+/** An import before merging: what it contributes, and the parts that could not be mapped. */
+export type ImportedArtifact = {
+  source: ImportSource;
+  file: string;
+  key: string;                // FA name or KAPE description, used for ids and name matching
+  name: string;
+  summary: string;
+  description?: string;       // the rest of a ForensicArtifacts doc after its first sentence
+  platform: Platform;
+  locations: Location[];
+  parsers: ParserRef[];
+  references: Reference[];
+  reads: string[];            // source paths a KAPE module parses; matched against locations only
+  skipped: string[];
+};
+
+export function fromForensicArtifact(def: FaDefinition, file: string): ImportedArtifact {
+  const platform = (def.supported_os ?? []).map((os) => FA_OS[os]).find(Boolean) ?? "windows";
+  const locations: Location[] = [];
+  const parsers: ParserRef[] = [];
+  const skipped: string[] = [];
+  const add = (path: string, notes?: string) => locations.push({ path, scope: USER_SCOPED.test(path) ? "user" : "system", ...(notes && { notes }) });
+
+  for (const s of def.sources) {
+    const attrs = s.attributes as Record<string, unknown>;
+    const strings = (v: unknown) => (Array.isArray(v) ? v.filter((x): x is string => typeof x === "string") : []);
+    switch (s.type) {
+      case "FILE":
+      case "DIRECTORY":
+      case "PATH":
+        for (const raw of strings(attrs.paths)) {
+          const path = faPath(raw, platform);
+          if (path) add(path); else skipped.push(`${s.type} ${raw} (unmapped variable)`);
+        }
+        break;
+      case "REGISTRY_KEY":
+        strings(attrs.keys).forEach((k) => add(registryPath(k)));
+        break;
+      case "REGISTRY_VALUE":
+        for (const pair of Array.isArray(attrs.key_value_pairs) ? attrs.key_value_pairs : []) {
+          const { key, value } = pair as { key?: string; value?: string };
+          if (key) add(registryPath(key), value ? `Value: ${value}` : undefined);
+        }
+        break;
+      case "COMMAND":
+        if (typeof attrs.cmd === "string") {
+          parsers.push({ tool_name: attrs.cmd.split(/[\\/]/).pop() ?? attrs.cmd, command_example: [attrs.cmd, ...strings(attrs.args)].join(" "), runs_in: "shell" });
+        }
+        break;
+      case "WMI":
+        if (typeof attrs.query === "string") parsers.push({ tool_name: "WMI", command_example: attrs.query, runs_in: "query" });
+        break;
+      default:
+        // ARTIFACT_GROUP and friends only point at other definitions.
+        skipped.push(`${s.type} source`);
+    }
+  }
+
+  // The doc's first sentence is the summary; the rest of a longer doc (often several wrapped lines) the description.
+  const doc = def.doc.trim().replace(/\s*\n\s*/g, " ");
+  const summary = doc.match(/^.*?[.!?](?=\s|$)/)?.[0] ?? doc;
+  const description = doc.slice(summary.length).trim();
+  return {
+    source: "ForensicArtifacts", file, key: def.name, name: summary.replace(/\.$/, ""), summary, ...(description && { description }), platform,
+    locations, parsers, references: referencesFrom(def.urls, def.name), reads: [], skipped,
+  };
+}
+
+export function fromTkape(t: Tkape, file: string): ImportedArtifact {
+  const { locations, compound } = tkapeLocations(t);
+  return {
+    source: "KAPE target", file, key: t.Description, name: t.Description, summary: t.Description, platform: "windows",
+    locations, parsers: [], references: [], reads: [], skipped: compound.map((c) => `compound target ${c}`),
+  };
+}
+
+export function fromMkape(m: Mkape, file: string): ImportedArtifact {
+  return {
+    source: "KAPE module", file, key: m.Description, name: m.Description, summary: m.Description, platform: "windows",
+    locations: [], parsers: mkapeParsers(m), references: [], reads: mkapePaths(m), skipped: [],
+  };
+}
+
+// ---------- Merge ----------
+
+export type Change =
+  | { kind: "updated"; artifact: Artifact; from: ImportedArtifact; locations: Location[]; parsers: ParserRef[]; references: Reference[]; notes: string[] }
+  | { kind: "added"; artifact: Artifact; from: ImportedArtifact }
+  | { kind: "unchanged"; artifact: Artifact; from: ImportedArtifact }
+  | { kind: "partial"; from: ImportedArtifact; candidates: Artifact[]; overlaps: string[]; uncovered: Location[] }
+  | { kind: "skipped"; from: ImportedArtifact; reason: string };
+
+const squash = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, "");
+const kebab = (s: string) => (/\s/.test(s) ? s : s.replace(/([a-z0-9])([A-Z])/g, "$1-$2")).toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+// "AmcacheParser (Zimmerman)" and "AmcacheParser" are the same tool.
+const toolKey = (name: string) => squash(name.replace(/\s*\(.*\)$/, ""));
+// A module reading C:\Windows\System32\Tasks parses the location C:\Windows\System32\Tasks\*; drop masks before comparing.
+const directoryOf = (p: string) => normalizePath(p).replace(/\\[^\\]*\*[^\\]*$/, "");
+const within = (a: string, b: string) => a === b || a.startsWith(`${b}\\`) || b.startsWith(`${a}\\`);
+
+const globRegExp = (mask: string) => new RegExp(`^${mask.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".")}$`);
+
+/**
+ * Whether the file set `outer` takes in `inner`: a path ending in a separator (a KAPE target
+ * with Recursive) takes in everything below it, any other path the files in its directory that
+ * match its last part, e.g. "...\Recent\" takes in "...\Recent\AutomaticDestinations\*.automaticDestinations-ms"
+ * and "C:\Windows\Prefetch\*" takes in "C:\Windows\Prefetch\*.pf".
+ */
+export function covers(outer: string, inner: string): boolean {
+  const slashes = (p: string) => p.replace(/\//g, "\\");
+  const raw = slashes(toKapePath(outer.trim()).toLowerCase());
+  const path = slashes(normalizePath(outer));
+  const target = slashes(normalizePath(inner));
+  if (raw.endsWith("\\")) return target.startsWith(`${path}\\`);
+  // normalizePath drops a trailing "\*", so "dir\*" arrives as "dir" with mask "*".
+  const at = path.lastIndexOf("\\");
+  const [parent, mask] = raw.endsWith("\\*") ? [path, "*"] : [path.slice(0, at), path.slice(at + 1)];
+  const targetAt = target.lastIndexOf("\\");
+  return target.slice(0, targetAt) === parent && globRegExp(mask).test(target.slice(targetAt + 1));
+}
+
+const overlaps = (a: string, b: string) => normalizePath(a) === normalizePath(b) || covers(a, b) || covers(b, a);
+
+type Match = { match?: Artifact; candidates: Artifact[] };
+
+// By exact location path, then by a location one side's path takes in, then by name. An import
+// whose paths overlap several artifacts (KAPE's LNK target covers both LNK files and jump lists)
+// has no single match; it is reported with its candidates instead of becoming a new entry.
+function findMatch(existing: Artifact[], imp: ImportedArtifact): Match {
+  const samePlatform = existing.filter((a) => a.platform === imp.platform);
+  const paths = new Set(imp.locations.map((l) => normalizePath(l.path)));
+  const byPath = samePlatform.find((a) => a.locations?.some((l) => paths.has(normalizePath(l.path))));
+  if (byPath) return { match: byPath, candidates: [byPath] };
+  if (imp.reads.length) {
+    const reads = imp.reads.map(directoryOf);
+    const match = samePlatform.find((a) => a.locations?.some((l) => reads.some((r) => within(r, directoryOf(l.path)))));
+    return { match, candidates: match ? [match] : [] };
+  }
+  const candidates = samePlatform.filter((a) => a.locations?.some((l) => imp.locations.some((i) => overlaps(i.path, l.path))));
+  if (candidates.length) return { match: candidates.length === 1 ? candidates[0] : undefined, candidates };
+  const names = new Set([squash(imp.name), squash(imp.key)]);
+  const match = samePlatform.find((a) => names.has(squash(a.name)) || names.has(squash(a.slug)));
+  return { match, candidates: match ? [match] : [] };
+}
+
+function newArtifact(imp: ImportedArtifact, taken: Set<string>): Artifact {
+  // FA names and KAPE descriptions often repeat the platform ("WindowsRecentFileCacheBcf").
+  const base = kebab(imp.key).replace(new RegExp(`^${imp.platform}-`), "");
+  let slug = `${imp.platform}-${base}`;
+  for (let n = 2; taken.has(slug); n++) slug = `${imp.platform}-${base}-${n}`;
+  taken.add(slug);
+  return {
+    id: `${imp.source === "ForensicArtifacts" ? "fa" : "kape"}-${slug.slice(imp.platform.length + 1)}`,
+    name: imp.name,
+    slug,
+    platform: imp.platform,
+    summary: imp.summary,
+    ...(imp.description && { description: imp.description }),
+    ...(imp.locations.length > 0 && { locations: imp.locations }),
+    ...(imp.parsers.length > 0 && { parsers: imp.parsers }),
+    ...(imp.references.length > 0 && { references: imp.references }),
+  };
+}
+
+/**
+ * Merge imports into `existing` (which is not modified). Matches by location
+ * path first, then by overlapping paths, then by name; matched entries only gain
+ * locations, parsers and references they do not have yet.
+ */
+export function mergeImports(existing: Artifact[], imports: ImportedArtifact[]): { artifacts: Artifact[]; changes: Change[] } {
+  const artifacts = existing.map((a) => ({ ...a }));
+  const taken = new Set(artifacts.map((a) => a.slug));
+  // A target exported from several artifacts must not pile their locations onto the first match.
+  const documented = new Map<string, Artifact>();
+  const index = (a: Artifact) => a.locations?.forEach((l) => documented.set(`${a.platform}:${normalizePath(l.path)}`, a));
+  artifacts.forEach(index);
+  const changes: Change[] = [];
+
+  for (const imp of imports) {
+    const { match, candidates } = findMatch(artifacts, imp);
+    if (!match && candidates.length > 1) {
+      const overlapping = imp.locations.flatMap((i) => candidates.flatMap((a) => (a.locations ?? []).filter((l) => overlaps(i.path, l.path)).map((l) => `${i.path} ↔ ${l.path} (${a.id})`)));
+      const uncovered = imp.locations.filter((i) => !candidates.some((a) => a.locations?.some((l) => overlaps(i.path, l.path))));
+      changes.push({ kind: "partial", from: imp, candidates, overlaps: overlapping, uncovered });
+      continue;
+    }
+    if (!match) {
+      if (imp.locations.length === 0) {
+        changes.push({ kind: "skipped", from: imp, reason: imp.reads.length ? `no artifact has a location under ${imp.reads.join(", ")}` : "no locations to import and no artifact with this name" });
+        continue;
+      }
+      const artifact = newArtifact(imp, taken);
+      artifacts.push(artifact);
+      index(artifact);
+      changes.push({ kind: "added", artifact, from: imp });
+      continue;
+    }
+
+    const known = new Map((match.locations ?? []).map((l) => [normalizePath(l.path), l]));
+    const locations: Location[] = [];
+    const notes: string[] = [];
+    for (const l of imp.locations) {
+      const key = normalizePath(l.path);
+      const ours = known.get(key);
+      const elsewhere = documented.get(`${imp.platform}:${key}`);
+      const overlapping = ours ? undefined : match.locations?.find((m) => overlaps(l.path, m.path));
+      if (ours) {
+        if (ours.scope !== l.scope && ["system", "user"].includes(ours.scope ?? "")) notes.push(`${ours.path}: kept scope "${ours.scope}", import says "${l.scope}"`);
+      } else if (overlapping) {
+        notes.push(`${l.path}: overlaps ${overlapping.path}, not added`);
+      } else if (elsewhere && elsewhere.id !== match.id) {
+        notes.push(`${l.path}: already documented by ${elsewhere.id}`);
+      } else {
+        locations.push(l);
+        known.set(key, l);
+        documented.set(`${imp.platform}:${key}`, match);
+      }
+    }
+    const tools = new Set((match.parsers ?? []).map((p) => toolKey(p.tool_name)));
+    const parsers = imp.parsers.filter((p) => !tools.has(toolKey(p.tool_name)) && (tools.add(toolKey(p.tool_name)), true));
+    const urls = new Set((match.references ?? []).map((r) => r.url));
+    const references = imp.references.filter((r) => !urls.has(r.url) && (urls.add(r.url), true));
+
+    if (locations.length + parsers.length + references.length === 0) {
+      changes.push({ kind: "unchanged", artifact: match, from: imp });
+      continue;
+    }
+    if (locations.length) match.locations = [...(match.locations ?? []), ...locations];
+    if (parsers.length) match.parsers = [...(match.parsers ?? []), ...parsers];
+    if (references.length) match.references = [...(match.references ?? []), ...references];
+    changes.push({ kind: "updated", artifact: match, from: imp, locations, parsers, references, notes });
+  }
+  return { artifacts, changes };
+}
+
+// ---------- Report ----------
+
+const origin = (imp: ImportedArtifact) => `${imp.source} \`${imp.key}\` (${imp.file})`;
+
+/** Markdown review of a merge: every added line, every new entry in full, and what was left out. */
+export function importReport(changes: Change[]): string {
+  const count = (kind: Change["kind"]) => changes.filter((c) => c.kind === kind).length;
+  const out = [
+    "# Artifact import",
+    "",
+    `${count("updated")} updated, ${count("added")} new, ${count("partial")} partial matches, ${count("unchanged")} already covered, ${count("skipped")} skipped.`,
+    "Existing text is never rewritten; review the additions below before committing the merged file.",
+  ];
+
+  for (const c of changes) {
+    if (c.kind === "updated") {
+      out.push("", `## ~ ${c.artifact.id} — ${c.artifact.name}`, `From ${origin(c.from)}`, "", "```diff");
+      c.locations.forEach((l) => out.push(`+ location   ${l.path}${l.scope ? `  [${l.scope}]` : ""}${l.notes ? `  ${l.notes}` : ""}`));
+      c.parsers.forEach((p) => out.push(`+ parser     ${p.tool_name}${p.command_example ? `: ${p.command_example}` : ""}`));
+      c.references.forEach((r) => out.push(`+ reference  ${r.title} <${r.url}>`));
+      out.push("```");
+      c.notes.forEach((n) => out.push(`- ${n}`));
+    } else if (c.kind === "added") {
+      out.push("", `## + ${c.artifact.id} — ${c.artifact.name}`, `From ${origin(c.from)}. Needs a curated summary, timestamps and ATT&CK mapping.`, "", "```json", JSON.stringify(c.artifact, null, 2), "```");
+    }
+  }
+
+  const partial = changes.filter((c) => c.kind === "partial");
+  if (partial.length) {
+    out.push("", "## Partial matches", "", "These overlap more than one artifact and were not merged; add what is missing to the right entry by hand.");
+    for (const c of partial) {
+      if (c.kind !== "partial") continue;
+      out.push("", `### ? ${origin(c.from)}`, `Candidates: ${c.candidates.map((a) => a.id).join(", ")}`, "");
+      c.overlaps.forEach((o) => out.push(`- overlaps ${o}`));
+      c.uncovered.forEach((l) => out.push(`- not documented: ${l.path}`));
+    }
+  }
+
+  const unchanged = changes.filter((c) => c.kind === "unchanged");
+  if (unchanged.length) {
+    out.push("", "## Already covered", "");
+    unchanged.forEach((c) => c.kind === "unchanged" && out.push(`- ${origin(c.from)} → ${c.artifact.id}`));
+  }
+  const skipped = [
+    ...changes.flatMap((c) => (c.kind === "skipped" ? [`${origin(c.from)}: ${c.reason}`] : [])),
+    ...changes.flatMap((c) => c.from.skipped.map((s) => `${origin(c.from)}: ${s}`)),
+  ];
+  if (skipped.length) {
+    out.push("", "## Not imported", "");
+    uniq(skipped).forEach((s) => out.push(`- ${s}`));
+  }
+  return out.join("\n") + "\n";
+}
@@ -0,0 +1,181 @@
+import { z } from "zod";
+import type { Artifact, Location, ParserRef } from "@/lib/schema";
+
+/**
+ * KAPE target (.tkape) and module (.mkape) files, both YAML. Targets list what
+ * to collect, modules how to parse it; the explorer imports both and exports
+ * its own Windows locations as a target.
+ */
+
+export const TkapeSchema = z.object({
+  Description: z.string().min(1),
+  Author: z.string().optional(),
+  Version: z.union([z.string(), z.number()]).optional(),
+  Id: z.union([z.string(), z.number()]).transform(String).optional(),   // YAML reads an unquoted numeric id as a number
+  Targets: z.array(z.object({
+    Name: z.string().min(1),
+    Category: z.string().optional(),
+    Path: z.string().min(1),
+    FileMask: z.string().optional(),
+    Recursive: z.boolean().optional(),
+    Comment: z.string().optional(),
+  }).passthrough()).min(1),
+}).passthrough();
+
+export const MkapeSchema = z.object({
+  Description: z.string().min(1),
+  Category: z.string().optional(),
+  BinaryUrl: z.string().optional(),
+  Processors: z.array(z.object({
+    Executable: z.string().min(1),
+    CommandLine: z.string().default(""),
+  }).passthrough()).min(1),
+}).passthrough();
+
+export type Tkape = z.infer<typeof TkapeSchema>;
+export type Mkape = z.infer<typeof MkapeSchema>;
+
+// ---------- Paths ----------
+
+// Our locations use environment variables; KAPE spells profiles out with %user%. Longest prefixes first.
+const ENV_TO_KAPE: Array<[string, string]> = [
+  ["%TEMP%", "C:\\Users\\%user%\\AppData\\Local\\Temp"],
+  ["%LOCALAPPDATA%", "C:\\Users\\%user%\\AppData\\Local"],
+  ["%APPDATA%", "C:\\Users\\%user%\\AppData\\Roaming"],
+  ["%USERPROFILE%", "C:\\Users\\%user%"],
+  ["%ALLUSERSPROFILE%", "C:\\ProgramData"],
+  ["%PROGRAMDATA%", "C:\\ProgramData"],
+  ["%PROGRAMFILES(X86)%", "C:\\Program Files (x86)"],
+  ["%PROGRAMFILES%", "C:\\Program Files"],
+  ["%SYSTEMROOT%", "C:\\Windows"],
+  ["%WINDIR%", "C:\\Windows"],
+];
+const KAPE_TO_ENV: Array<[string, string]> = [
+  ["C:\\Users\\%user%\\AppData\\Local\\Temp", "%TEMP%"],
+  ["C:\\Users\\%user%\\AppData\\Local", "%LOCALAPPDATA%"],
+  ["C:\\Users\\%user%\\AppData\\Roaming", "%APPDATA%"],
+  ["C:\\Users\\%user%", "%USERPROFILE%"],
+  ["C:\\ProgramData", "%ProgramData%"],
+  ["C:\\Program Files (x86)", "%ProgramFiles(x86)%"],
+  ["C:\\Program Files", "%ProgramFiles%"],
+];
+
+function replacePrefix(path: string, table: Array<[string, string]>): string {
+  for (const [from, to] of table) {
+    const head = path.slice(0, from.length);
+    const rest = path.slice(from.length);
+    if (head.toLowerCase() === from.toLowerCase() && (rest === "" || rest.startsWith("\\"))) return to + rest;
+  }
+  return path;
+}
+
+// NTFS metafiles are documented relative to the volume ("$MFT (NTFS volume)"); KAPE wants them on C:.
+export function toKapePath(path: string): string {
+  const volume = path.replace(/\s+\(NTFS volume\)$/, "");
+  return volume.startsWith("$") ? `C:\\${volume}` : replacePrefix(path, ENV_TO_KAPE);
+}
+export function fromKapePath(path: string): string { return replacePrefix(path, KAPE_TO_ENV); }
+
+/** Comparable form of a location path: KAPE spelling, lower case, no trailing separator or `*`. */
+export function normalizePath(path: string): string {
+  return toKapePath(path.trim()).toLowerCase().replace(/[\\/]+\*?$/, "");
+}
+
+// ---------- Import ----------
+
+const KAPE_VARIABLES: Array<[RegExp, string]> = [
+  [/%sourceDirectory%/gi, "{source}"],
+  [/%destinationDirectory%/gi, "{output_dir}"],
+];
+
+// Module command lines often leave the directories bare (-d %sourceDirectory%); quote those
+// arguments so the paths stay one argument when they contain spaces.
+function templateCommand(line: string): string {
+  const quoted = line.replace(/"[^"]*"|[^\s"]+/g, (arg) => (!arg.startsWith("\"") && KAPE_VARIABLES.some(([re]) => arg.match(re)) ? `"${arg}"` : arg));
+  return KAPE_VARIABLES.reduce((s, [re, to]) => s.replace(re, to), quoted).trim();
+}
+
+const basename = (path: string) => path.split(/[\\/]/).pop() ?? path;
+
+/** Locations of a target file; entries pointing at other .tkape files (compound targets) are returned separately. */
+export function tkapeLocations(t: Tkape): { locations: Location[]; compound: string[] } {
+  const locations: Location[] = [];
+  const compound: string[] = [];
+  for (const target of t.Targets) {
+    if (/\.tkape$/i.test(target.Path)) { compound.push(target.Path); continue; }
+    const dir = target.Path.replace(/\\+$/, "");
+    const path = fromKapePath(target.FileMask ? `${dir}\\${target.FileMask}` : target.Recursive ? `${dir}\\` : `${dir}\\*`);
+    const notes = [target.Name !== t.Description ? target.Name : "", target.Comment ?? ""].filter(Boolean).join(": ");
+    locations.push({ path, scope: /%user%/i.test(target.Path) ? "user" : "system", ...(notes && { notes }) });
+  }
+  return { locations, compound };
+}
+
+/** Parsers of a module, with KAPE's source/destination variables turned into command placeholders. */
+export function mkapeParsers(m: Mkape): ParserRef[] {
+  return m.Processors.map((p) => {
+    const exe = basename(p.Executable);
+    return {
+      tool_name: exe.replace(/\.exe$/i, ""),
+      command_example: templateCommand(`${exe} ${p.CommandLine}`),
+      ...(m.BinaryUrl && /^https?:\/\//.test(m.BinaryUrl) && { links: [m.BinaryUrl] }),
+    };
+  });
+}
+
+/** Source paths a module reads (`%sourceDirectory%\Windows\...`), used to find the artifact it parses. */
+export function mkapePaths(m: Mkape): string[] {
+  return m.Processors.flatMap((p) => Array.from(p.CommandLine.matchAll(/%sourceDirectory%(\\[^\s"]+)/gi), (match) => fromKapePath(`C:${match[1]}`)));
+}
+
+// ---------- Export ----------
+
+export type TkapeOptions = { description: string; id?: string; author?: string };
+
+// Plain YAML scalars cannot start with indicator characters (`*.lnk` would read as an alias).
+function scalar(value: string): string {
+  return /^[A-Za-z0-9$\\]/.test(value) && !/: | #|['"]$/.test(value) ? value : `'${value.replace(/'/g, "''")}'`;
+}
+
+type TargetEntry = { Name: string; Category: string; Path: string; FileMask?: string; Recursive?: boolean; Comment?: string };
+
+// KAPE copies files: registry keys, event log channels and free-text hints have no file path to collect.
+function targetFor(a: Artifact, l: Location): TargetEntry | null {
+  const path = toKapePath(l.path);
+  if (!/^[A-Za-z]:\\/.test(path)) return null;
+  const base = { Name: l.scope && !["system", "user"].includes(l.scope) ? `${a.name} – ${l.scope}` : a.name, Category: a.artifact_class ?? "Misc", Comment: l.notes };
+  if (path.endsWith("\\")) return { ...base, Path: path, Recursive: true };
+  const cut = path.lastIndexOf("\\");
+  const dir = path.slice(0, cut + 1);
+  const mask = path.slice(cut + 1);
+  return mask === "*" ? { ...base, Path: dir } : { ...base, Path: dir, FileMask: mask };
+}
+
+/** A KAPE target collecting every file location of `artifacts`; locations KAPE cannot copy are listed as comments. */
+export function toTkape(artifacts: Artifact[], opts: TkapeOptions): string {
+  const entries: TargetEntry[] = [];
+  const skipped: string[] = [];
+  for (const a of artifacts.filter((x) => x.platform === "windows")) {
+    for (const l of a.locations ?? []) {
+      const entry = targetFor(a, l);
+      if (entry) entries.push(entry); else skipped.push(`${a.name}: ${l.path}`);
+    }
+  }
+  const out = [
+    `Description: ${scalar(opts.description)}`,
+    `Author: ${scalar(opts.author ?? "DFIR Artifact Explorer")}`,
+    "Version: 1.0",
+    `Id: ${opts.id ?? crypto.randomUUID()}`,
+    "RecreateDirectories: true",
+    "Targets:",
+  ];
+  for (const e of entries) {
+    out.push("    -");
+    out.push(`        Name: ${scalar(e.Name)}`, `        Category: ${scalar(e.Category)}`, `        Path: ${scalar(e.Path)}`);
+    if (e.FileMask) out.push(`        FileMask: ${scalar(e.FileMask)}`);
+    if (e.Recursive) out.push("        Recursive: true");
+    if (e.Comment) out.push(`        Comment: ${scalar(e.Comment)}`);
+  }
+  if (skipped.length) out.push("", "# Not collectable as files (registry keys, event channels, free-text hints):", ...skipped.map((s) => `#   ${s}`));
+  return out.join("\n") + "\n";
+}
@@ -0,0 +1,73 @@
+import { ATTACK } from "@/lib/attack";
+import { COMMAND_VARIABLES, SEED } from "@/lib/artifacts";
+import { TIMELINE_FIELDS } from "@/lib/crosswalk";
+import { PLATFORM_DEFS } from "@/lib/platforms";
+import { ArtifactListSchema, validateArtifacts, type Artifact, type DataIssue } from "@/lib/schema";
+import { seedEntry } from "@/lib/seedFormat";
+
+/**
+ * The local overlay: artifacts kept in this browser only (client-specific
+ * paths, internal tools) and merged over the published catalogue. A local
+ * entry with the id of a published one replaces it; any other is appended.
+ */
+
+/** The catalogue as the browser sees it: overrides in place, new local entries at the end. */
+export function mergeOverlay(seed: Artifact[], local: Artifact[]): Artifact[] {
+  if (local.length === 0) return seed;
+  const byId = new Map(local.map((a) => [a.id, a]));
+  return [...seed.map((a) => byId.get(a.id) ?? a), ...local.filter((a) => !seed.some((s) => s.id === a.id))];
+}
+
+/** Put `incoming` into the local list by id; an entry already there is replaced where it stands. */
+export function upsertLocal(local: Artifact[], incoming: Artifact[]): Artifact[] {
+  const byId = new Map(incoming.map((a) => [a.id, a]));
+  return [...local.map((a) => byId.get(a.id) ?? a), ...incoming.filter((a) => !local.some((l) => l.id === a.id))];
+}
+
+/** Local artifacts whose relations point at `id`, and would dangle once the local `id` is removed. */
+export function relatedLocal(local: Artifact[], id: string): Artifact[] {
+  if (SEED.some((a) => a.id === id)) return [];   // the published entry takes the override's place
+  return local.filter((a) => a.id !== id && a.relations?.some((r) => r.target === id));
+}
+
+/** Remove a local artifact, and the relations other local artifacts have to it when nothing takes its place. */
+export function removeLocalArtifact(local: Artifact[], id: string): Artifact[] {
+  const dependents = new Set(relatedLocal(local, id));
+  return local.filter((a) => a.id !== id).map((a) => {
+    if (!dependents.has(a)) return a;
+    const { relations, ...rest } = a;
+    const kept = relations!.filter((r) => r.target !== id);
+    return kept.length ? { ...rest, relations: kept } : rest;
+  });
+}
+
+export type OverlayCheck = { local: Artifact[]; errors: DataIssue[]; warnings: DataIssue[] };
+
+/**
+ * Validate a local list the way `npm run validate-data` validates the seed, on the merged
+ * catalogue: a slug clash or a relation to an unknown id counts even when it is the
+ * published entry that breaks.
+ */
+export function checkOverlay(local: Artifact[]): OverlayCheck {
+  const { errors, warnings } = validateArtifacts(mergeOverlay(SEED, local), { commandVariables: COMMAND_VARIABLES, attack: ATTACK, platforms: PLATFORM_DEFS, timelineFields: TIMELINE_FIELDS });
+  return { local, errors, warnings };
+}
+
+/**
+ * Parse an overlay file (a list of artifacts, or a single one as the editor downloads it) and
+ * merge it into `local`. Structural problems are reported with paths into the file; nothing
+ * from a file with errors should be stored.
+ */
+export function importOverlay(text: string, local: Artifact[]): OverlayCheck & { imported: number } {
+  let json: unknown;
+  try { json = JSON.parse(text); } catch { return { local, imported: 0, errors: [{ path: "$", message: "File is not valid JSON." }], warnings: [] }; }
+  const entries = Array.isArray(json) ? json : [json];
+  // Only the shape is checked on its own; relations and the like need the rest of the catalogue.
+  if (!ArtifactListSchema.safeParse(entries).success) return { local, imported: 0, errors: validateArtifacts(entries).errors, warnings: [] };
+  return { ...checkOverlay(upsertLocal(local, entries as Artifact[])), imported: entries.length };
+}
+
+/** The local list as a file in data/seed.json's formatting, ready to import elsewhere or to paste into the seed. */
+export function exportOverlay(local: Artifact[]): string {
+  return `[\n${local.map(seedEntry).join(",\n")}\n]\n`;
+}
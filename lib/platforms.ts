@@ -0,0 +1,20 @@
+import platforms from "@/data/platforms.json";
+import { PlatformListSchema, type Platform, type PlatformDef, type PlatformGroup } from "@/lib/schema";
+
+// The registry lives in data/platforms.json: adding a platform there adds it to
+// every filter, badge and legend, and `npm run validate-data` checks artifact
+// locations against its path conventions.
+export const PLATFORM_DEFS: PlatformDef[] = PlatformListSchema.parse(platforms);
+export const PLATFORMS: Platform[] = PLATFORM_DEFS.map((p) => p.id);
+
+export const PLATFORM_GROUPS: PlatformGroup[] = ["endpoint", "saas", "iaas"];
+export const PLATFORM_GROUP_LABEL: Record<PlatformGroup, string> = { endpoint: "Endpoints", saas: "SaaS", iaas: "Cloud (IaaS)" };
+
+const BY_ID = new Map(PLATFORM_DEFS.map((p) => [p.id, p]));
+
+/** Unknown ids fail validate-data, but still render (grey, id as label) rather than crash. */
+export function getPlatform(id: Platform): PlatformDef {
+  return BY_ID.get(id) ?? { id, label: id, icon: "?", color: "#6b7280", group: "endpoint", paths: [] };
+}
+
+export function platformLabel(id: Platform): string { return getPlatform(id).label; }
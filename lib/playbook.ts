@@ -0,0 +1,190 @@
+import { COMMAND_VARIABLES, groupLocationsByScope } from "@/lib/artifacts";
+import { placeholdersIn, renderCommand, type CommandValues } from "@/lib/commands";
+import { platformLabel } from "@/lib/platforms";
+import type { Artifact } from "@/lib/schema";
+import { artifactListQuery } from "@/lib/urlState";
+
+/**
+ * "What to collect and how" playbook for a set of artifacts, rendered as
+ * Markdown or as a standalone HTML document whose print stylesheet is tuned
+ * for Save-as-PDF. Both renderers walk the same sections in the same order.
+ * Commands are rendered with the analyst's command variables (`values`);
+ * placeholders that are still unset are listed under the command.
+ */
+export type PlaybookOptions = { title: string; generatedAt?: Date; values?: CommandValues };
+
+export function playbookQuery(slugs: string[], title?: string | null): string {
+  return `${artifactListQuery(slugs)}${title ? `&title=${encodeURIComponent(title)}` : ""}`;
+}
+
+export function playbookHref(slugs: string[], title?: string): string {
+  return `/playbook/${playbookQuery(slugs, title)}`;
+}
+
+type Checklist = { title: string; steps: string[] };
+
+function checklists(a: Artifact): Checklist[] {
+  const lists: Checklist[] = [];
+  if (a.gui_log_collection_steps?.length) lists.push({ title: "GUI Log Collection", steps: a.gui_log_collection_steps });
+  if (!a.gui_log_collection_steps) a.collection_steps?.forEach((g) => lists.push({ title: g.category, steps: g.steps }));
+  if (a.due_diligence_checks?.length) lists.push({ title: "Due Diligence Checks", steps: a.due_diligence_checks });
+  if (a.additional_checks?.length) lists.push({ title: "Additional Checks", steps: a.additional_checks });
+  return lists;
+}
+
+function subtitle(a: Artifact): string {
+  return [platformLabel(a.platform), a.artifact_class, a.tactic_tags?.join(", ")].filter(Boolean).join(" · ");
+}
+
+function commandsOf(a: Artifact, opts: PlaybookOptions): Array<{ tool: string; command?: string; unset: string[] }> {
+  return (a.parsers ?? []).map((p) => {
+    const command = p.command_example ? renderCommand(p, opts.values ?? {}, COMMAND_VARIABLES) : undefined;
+    return { tool: p.tool_name, command, unset: command ? placeholdersIn(command) : [] };
+  });
+}
+
+function unsetLine(unset: string[]): string {
+  return `Set before running: ${unset.map((name) => `{${name}}`).join(", ")}`;
+}
+
+function generatedLine(opts: PlaybookOptions): string {
+  return `Generated ${(opts.generatedAt ?? new Date()).toISOString().slice(0, 10)} from DFIR Artifact Explorer`;
+}
+
+// ---------- Markdown ----------
+
+function mdCode(text: string): string {
+  return text.includes("`") ? `\`\` ${text} \`\`` : `\`${text}\``;
+}
+
+export function playbookMarkdown(artifacts: Artifact[], opts: PlaybookOptions): string {
+  const out: string[] = [`# ${opts.title}`, "", `_${generatedLine(opts)}_`, "", "## Contents", ""];
+  artifacts.forEach((a, i) => out.push(`${i + 1}. [${a.name}](#${a.slug})`));
+
+  artifacts.forEach((a, i) => {
+    out.push("", `<a id="${a.slug}"></a>`, `## ${i + 1}. ${a.name}`, "", `_${subtitle(a)}_`, "", a.summary);
+    if (a.description) out.push("", a.description);
+
+    if (a.locations?.length) {
+      out.push("", "### Locations");
+      for (const [scope, locations] of groupLocationsByScope(a.locations)) {
+        out.push("", `**${scope}**`, "");
+        locations.forEach((l) => out.push(`- ${mdCode(l.path)}${l.notes ? ` — ${l.notes}` : ""}`));
+      }
+    }
+    if (a.collection_methods?.length) {
+      out.push("", "### Collection methods", "");
+      a.collection_methods.forEach((m) => out.push(`- ${m}`));
+    }
+    if (a.parsers?.length) {
+      out.push("", "### Parsers & commands");
+      commandsOf(a, opts).forEach((c) => {
+        out.push("", `**${c.tool}**`);
+        if (c.command) out.push("", "```", c.command, "```");
+        if (c.unset.length) out.push("", `_${unsetLine(c.unset)}_`);
+      });
+    }
+    for (const list of checklists(a)) {
+      out.push("", `### ${list.title}`, "");
+      list.steps.forEach((s) => out.push(`- [ ] ${s}`));
+    }
+    if (a.validation?.length) {
+      out.push("", "### Validation / corroboration", "");
+      a.validation.forEach((v) => out.push(`- ${v}`));
+    }
+    if (a.known_pitfalls?.length) {
+      out.push("", "### Known pitfalls", "");
+      a.known_pitfalls.forEach((v) => out.push(`- ${v}`));
+    }
+    if (a.references?.length) {
+      out.push("", "### References", "");
+      a.references.forEach((r) => out.push(`- [${r.title}](${r.url})`));
+    }
+  });
+  return out.join("\n") + "\n";
+}
+
+// ---------- HTML ----------
+
+function esc(text: string): string {
+  return text.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]!);
+}
+
+const PLAYBOOK_CSS = `
+  body { font: 14px/1.5 system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; color: #111827; max-width: 860px; margin: 2rem auto; padding: 0 1rem; }
+  h1 { font-size: 1.75rem; margin-bottom: 0; }
+  h2 { font-size: 1.3rem; border-bottom: 1px solid #e5e7eb; padding-bottom: .25rem; margin-top: 2.5rem; }
+  h3 { font-size: 1rem; margin: 1.25rem 0 .25rem; }
+  h4 { font-size: .9rem; margin: .75rem 0 .25rem; color: #374151; }
+  .meta, .sub { color: #6b7280; font-size: .85rem; }
+  code, pre { font: 12px/1.4 ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; background: #f9fafb; border: 1px solid #e5e7eb; border-radius: 4px; }
+  code { padding: 0 .25rem; word-break: break-all; }
+  pre { padding: .5rem; white-space: pre-wrap; word-break: break-all; }
+  ul, ol { padding-left: 1.4rem; margin: .25rem 0; }
+  li { margin: .15rem 0; }
+  ul.checklist { list-style: none; padding-left: .25rem; }
+  ul.checklist li::before { content: "☐ "; }
+  nav ol { columns: 2; }
+  a { color: #1d4ed8; }
+  @page { size: A4; margin: 16mm 14mm; }
+  @media print {
+    body { margin: 0; max-width: none; font-size: 11pt; }
+    nav { break-after: page; }
+    section.artifact { break-before: page; }
+    h2, h3, h4 { break-after: avoid; }
+    li, pre { break-inside: avoid; }
+    a { color: inherit; text-decoration: none; }
+    .refs a::after { content: " (" attr(href) ")"; font-size: 9pt; color: #6b7280; word-break: break-all; }
+  }
+`;
+
+function htmlList(items: string[], cls?: string): string {
+  return `<ul${cls ? ` class="${cls}"` : ""}>${items.map((i) => `<li>${i}</li>`).join("")}</ul>`;
+}
+
+function artifactHtml(a: Artifact, n: number, opts: PlaybookOptions): string {
+  const parts: string[] = [`<section class="artifact" id="${esc(a.slug)}">`, `<h2>${n}. ${esc(a.name)}</h2>`, `<p class="sub">${esc(subtitle(a))}</p>`, `<p>${esc(a.summary)}</p>`];
+  if (a.description) parts.push(`<p>${esc(a.description)}</p>`);
+  if (a.locations?.length) {
+    parts.push("<h3>Locations</h3>");
+    for (const [scope, locations] of groupLocationsByScope(a.locations)) {
+      parts.push(`<h4>${esc(scope)}</h4>`, htmlList(locations.map((l) => `<code>${esc(l.path)}</code>${l.notes ? ` — ${esc(l.notes)}` : ""}`)));
+    }
+  }
+  if (a.collection_methods?.length) parts.push("<h3>Collection methods</h3>", htmlList(a.collection_methods.map(esc)));
+  if (a.parsers?.length) {
+    parts.push("<h3>Parsers &amp; commands</h3>");
+    commandsOf(a, opts).forEach((c) => parts.push(
+      `<h4>${esc(c.tool)}</h4>`,
+      c.command ? `<pre>${esc(c.command)}</pre>` : "",
+      c.unset.length ? `<p class="sub">${esc(unsetLine(c.unset))}</p>` : "",
+    ));
+  }
+  for (const list of checklists(a)) parts.push(`<h3>${esc(list.title)}</h3>`, htmlList(list.steps.map(esc), "checklist"));
+  if (a.validation?.length) parts.push("<h3>Validation / corroboration</h3>", htmlList(a.validation.map(esc)));
+  if (a.known_pitfalls?.length) parts.push("<h3>Known pitfalls</h3>", htmlList(a.known_pitfalls.map(esc)));
+  if (a.references?.length) {
+    parts.push("<h3>References</h3>", `<div class="refs">${htmlList(a.references.map((r) => `<a href="${esc(r.url)}">${esc(r.title)}</a>`))}</div>`);
+  }
+  parts.push("</section>");
+  return parts.join("\n");
+}
+
+export function playbookHtml(artifacts: Artifact[], opts: PlaybookOptions): string {
+  const toc = artifacts.map((a) => `<li><a href="#${esc(a.slug)}">${esc(a.name)}</a></li>`).join("");
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${esc(opts.title)}</title>
+<style>${PLAYBOOK_CSS}</style>
+</head>
+<body>
+<h1>${esc(opts.title)}</h1>
+<p class="meta">${esc(generatedLine(opts))}</p>
+<nav><h2>Contents</h2><ol>${toc}</ol></nav>
+${artifacts.map((a, i) => artifactHtml(a, i + 1, opts)).join("\n")}
+</body>
+</html>
+`;
+}
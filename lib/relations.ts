@@ -0,0 +1,71 @@
+import type { Artifact, RelationType } from "@/lib/schema";
+
+/**
+ * Typed links between artifacts. Each relation is stored once, on the artifact
+ * that declares it; the other side sees it through its inverse label.
+ * `same-source-as` and `parsed-by-same-tool` are symmetric.
+ */
+export const RELATION_TYPES: RelationType[] = ["corroborates", "supersedes", "same-source-as", "parsed-by-same-tool"];
+
+export const RELATION_LABEL: Record<RelationType, { out: string; in: string }> = {
+  "corroborates": { out: "Corroborates", in: "Corroborated by" },
+  "supersedes": { out: "Supersedes", in: "Superseded by" },
+  "same-source-as": { out: "Same source as", in: "Same source as" },
+  "parsed-by-same-tool": { out: "Parsed by the same tool as", in: "Parsed by the same tool as" },
+};
+
+export type RelationEdge = { type: RelationType; from: string; to: string; note?: string };
+export type RelatedArtifact = { type: RelationType; direction: "out" | "in"; artifact: Artifact; note?: string };
+
+export function relationEdges(artifacts: Artifact[]): RelationEdge[] {
+  return artifacts.flatMap((a) => (a.relations ?? []).map((r) => ({ type: r.type, from: a.id, to: r.target, note: r.note })));
+}
+
+/** Relations of `a` in both directions, grouped under their display label in RELATION_TYPES order. */
+export function relatedArtifacts(a: Artifact, artifacts: Artifact[]): Array<[string, RelatedArtifact[]]> {
+  const byId = new Map(artifacts.map((x) => [x.id, x]));
+  const related: RelatedArtifact[] = [];
+  for (const e of relationEdges(artifacts)) {
+    const direction = e.from === a.id ? "out" : e.to === a.id ? "in" : null;
+    const other = direction && byId.get(direction === "out" ? e.to : e.from);
+    if (direction && other) related.push({ type: e.type, direction, artifact: other, note: e.note });
+  }
+  const groups = new Map<string, RelatedArtifact[]>();
+  for (const type of RELATION_TYPES) {
+    for (const direction of ["out", "in"] as const) {
+      const label = RELATION_LABEL[type][direction];
+      const group = groups.get(label) ?? [];   // symmetric types share one label for both directions
+      for (const r of related) {
+        if (r.type === type && r.direction === direction && !group.some((x) => x.artifact.id === r.artifact.id)) group.push(r);
+      }
+      if (group.length) groups.set(label, group);
+    }
+  }
+  return Array.from(groups.entries());
+}
+
+export type Neighbourhood = { nodes: Array<{ artifact: Artifact; depth: number }>; edges: RelationEdge[] };
+
+/** Artifacts within `depth` hops of `rootId`, following relations of the given types in either direction. */
+export function neighbourhood(rootId: string, depth: number, types: RelationType[], artifacts: Artifact[]): Neighbourhood {
+  const byId = new Map(artifacts.map((a) => [a.id, a]));
+  const edges = relationEdges(artifacts).filter((e) => types.includes(e.type));
+  const depthOf = new Map<string, number>([[rootId, 0]]);
+  let frontier = [rootId];
+  for (let d = 1; d <= depth && frontier.length > 0; d++) {
+    const next: string[] = [];
+    for (const id of frontier) {
+      for (const e of edges) {
+        const other = e.from === id ? e.to : e.to === id ? e.from : null;
+        if (other && byId.has(other) && !depthOf.has(other)) { depthOf.set(other, d); next.push(other); }
+      }
+    }
+    frontier = next;
+  }
+  return {
+    nodes: Array.from(depthOf.entries()).filter(([id]) => byId.has(id)).map(([id, d]) => ({ artifact: byId.get(id)!, depth: d })),
+    edges: edges.filter((e) => depthOf.has(e.from) && depthOf.has(e.to)),
+  };
+}
+
+export function graphHref(slug: string): string { return `/graph/?artifact=${encodeURIComponent(slug)}`; }
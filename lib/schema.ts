@@ -0,0 +1,474 @@
+import { z } from "zod";
+
+// Single source of truth for the artifact data model. Types are inferred from
+// these schemas, so the UI and `npm run validate-data` can never drift apart.
+
+// Platforms are defined in data/platforms.json; artifacts refer to them by id.
+export const PlatformSchema = z.string().regex(/^[a-z][a-z0-9]*$/, "Platform id must be lowercase letters and digits, e.g. windows");
+
+export const LocationSchema = z.object({
+  path: z.string().min(1),
+  scope: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+// How a timestamp is stored on disk or in the API; drives the decoder in lib/timestamps.ts.
+export const TimestampEncodingSchema = z.enum(["filetime", "unix_s", "unix_ms", "unix_us", "hfs_plus", "webkit", "ole", "systemtime", "iso8601"]);
+export const TimezoneBehaviorSchema = z.enum(["utc", "local", "offset", "unknown"]);   // offset = value carries its own UTC offset
+export const TimestampPrecisionSchema = z.enum(["100ns", "us", "ms", "s", "2s", "day"]);
+
+export const TimestampFieldSchema = z.object({
+  name: z.string().min(1),
+  source: z.string().optional(),
+  encoding: TimestampEncodingSchema.optional(),
+  tz_behavior: TimezoneBehaviorSchema.optional(),
+  precision: TimestampPrecisionSchema.optional(),
+  notes: z.string().optional(),
+});
+
+// Placeholders in command_example look like {output_dir}; see data/command-variables.json.
+export const PLACEHOLDER_PATTERN = /\{([a-z][a-z0-9_]*)\}/g;
+
+// Links end up in <a href>, where a javascript: or data: URL would run in the page.
+function isWebUrl(value: string): boolean {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+const WebUrlSchema = z.string().refine(isWebUrl, "Must be an http:// or https:// URL");
+
+export const CommandVariableSchema = z.object({
+  name: z.string().regex(/^[a-z][a-z0-9_]*$/, "Variable name must be snake_case"),
+  label: z.string().min(1),
+  type: z.enum(["string", "path", "date", "email"]),
+  default: z.string().optional(),   // may reference other variables, e.g. "{source}\\Windows"
+  description: z.string().optional(),
+});
+
+// The normalized timeline vocabulary lives in data/timeline-fields.json (ECS names where ECS has one).
+export const TimelineFieldIdSchema = z.string().regex(/^@?[a-z][a-z0-9_]*(\.[a-z][a-z0-9_]*)*$/, "Timeline field id must be dotted lowercase, e.g. file.hash.sha1");
+
+export const TimelineFieldSchema = z.object({
+  id: TimelineFieldIdSchema,
+  label: z.string().min(1),                                                     // e.g. "SHA1"; also the timeline's timestamp description
+  type: z.enum(["keyword", "path", "hash", "date", "number", "boolean"]),     // "date" columns become timeline events
+  description: z.string().min(1),
+  ecs: z.boolean().optional(),                                                  // an Elastic Common Schema field, rather than one of ours
+});
+
+export const TimelineFieldListSchema = z.array(TimelineFieldSchema).min(1);
+
+// A tool's output column: a plain description, or its normalized field plus an optional description.
+export const OutputFieldSchema = z.union([
+  z.string(),
+  z.object({ field: TimelineFieldIdSchema, description: z.string().optional() }),
+]);
+
+export const ParserRefSchema = z.object({
+  tool_name: z.string().min(1),
+  command_example: z.string().optional(),
+  // Where the command runs: a native executable (any shell), a PowerShell cmdlet, or a query/API call that is not a shell command.
+  runs_in: z.enum(["shell", "powershell", "query"]).optional(),
+  variables: z.record(z.string()).optional(),   // per-command defaults, e.g. { "system_hive": "{source}\\Windows\\...\\RegBack\\SYSTEM" }
+  output_fields: z.record(OutputFieldSchema).optional(),   // column name -> OutputField, e.g. { "SHA1": { "field": "file.hash.sha1" } }
+  links: z.array(WebUrlSchema).optional(),
+});
+
+export const EventIdGroupSchema = z.object({
+  ids: z.array(z.string().regex(/^\d+$/, "Event ID must be numeric")).min(1), // e.g., ["4624","4625"]
+  source: z.string().min(1),      // e.g., "Security" or provider name
+  description: z.string().min(1), // what these events indicate
+  titles: z.record(z.string().min(1)).optional(), // short per-ID meaning, e.g. { "4624": "Successful logon" }
+});
+
+export const CollectionStepsSchema = z.object({
+  category: z.string().min(1),
+  steps: z.array(z.string().min(1)).min(1),
+});
+
+export const ReferenceSchema = z.object({
+  title: z.string().min(1),
+  url: WebUrlSchema,
+});
+
+export const RelationTypeSchema = z.enum(["corroborates", "supersedes", "same-source-as", "parsed-by-same-tool"]);
+
+export const RelationSchema = z.object({
+  type: RelationTypeSchema,
+  target: z.string().min(1),      // id of the related artifact; must exist in the catalogue
+  note: z.string().optional(),    // e.g. "Execution of the same binary"
+});
+
+const TacticIdSchema = z.string().regex(/^TA\d{4}$/, "ATT&CK tactic id must look like TA0002");
+const TechniqueIdSchema = z.string().regex(/^T\d{4}(?:\.\d{3})?$/, "ATT&CK technique id must look like T1053 or T1053.005");
+
+// IDs are checked against the bundled matrix in data/attack.json.
+export const AttackMappingSchema = z.object({
+  tactics: z.array(TacticIdSchema).optional(),        // e.g. ["TA0003"]
+  techniques: z.array(TechniqueIdSchema).optional(),  // e.g. ["T1053.005"]
+});
+
+export const ArtifactSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  slug: z.string().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Slug must be lowercase kebab-case"),
+  platform: PlatformSchema,
+  tactic_tags: z.array(z.string().min(1)).optional(),
+  attack: AttackMappingSchema.optional(),
+  artifact_class: z.string().optional(),
+  summary: z.string().min(1),
+  description: z.string().optional(),
+  locations: z.array(LocationSchema).optional(),
+  timestamps: z.array(TimestampFieldSchema).optional(),
+  parsers: z.array(ParserRefSchema).optional(),
+  collection_methods: z.array(z.string()).optional(),
+  validation: z.array(z.string()).optional(),
+  known_pitfalls: z.array(z.string()).optional(),
+  references: z.array(ReferenceSchema).optional(),
+  event_ids: z.array(EventIdGroupSchema).optional(),
+  collection_steps: z.array(CollectionStepsSchema).optional(),
+  gui_log_collection_steps: z.array(z.string()).optional(),
+  due_diligence_checks: z.array(z.string()).optional(),
+  additional_checks: z.array(z.string()).optional(),
+  relations: z.array(RelationSchema).optional(),
+});
+
+export const ArtifactListSchema = z.array(ArtifactSchema);
+export const CommandVariableListSchema = z.array(CommandVariableSchema);
+
+export const AttackMatrixSchema = z.object({
+  name: z.string().min(1),
+  version: z.string().min(1),
+  note: z.string().optional(),
+  tactics: z.array(z.object({ id: TacticIdSchema, name: z.string().min(1) })).min(1),   // in matrix column order
+  // Sub-techniques (T1053.005) omit `tactics` and inherit their parent's.
+  techniques: z.array(z.object({ id: TechniqueIdSchema, name: z.string().min(1), tactics: z.array(TacticIdSchema).min(1).optional() })),
+});
+
+export const PlatformGroupSchema = z.enum(["endpoint", "saas", "iaas"]);
+
+// How location paths look on a platform; every artifact location must match one of its platform's conventions.
+export const PathConventionSchema = z.object({
+  label: z.string().min(1),       // e.g. "Registry key"
+  pattern: z.string().min(1),     // regular expression, e.g. "^(HKLM|HKCU)\\\\"
+  example: z.string().min(1),     // must match `pattern`
+});
+
+export const PlatformDefSchema = z.object({
+  id: PlatformSchema,
+  label: z.string().min(1),
+  icon: z.string().min(1).max(3),                                     // monogram shown in the platform badge, e.g. "WIN"
+  color: z.string().regex(/^#[0-9a-f]{6}$/i, "Colour must be a hex value like #2563eb"),
+  group: PlatformGroupSchema,
+  paths: z.array(PathConventionSchema).min(1),
+});
+
+export const PlatformListSchema = z.array(PlatformDefSchema).min(1);
+
+export type Platform = z.infer<typeof PlatformSchema>;
+export type PlatformGroup = z.infer<typeof PlatformGroupSchema>;
+export type PathConvention = z.infer<typeof PathConventionSchema>;
+export type PlatformDef = z.infer<typeof PlatformDefSchema>;
+export type Location = z.infer<typeof LocationSchema>;
+export type TimestampEncoding = z.infer<typeof TimestampEncodingSchema>;
+export type TimezoneBehavior = z.infer<typeof TimezoneBehaviorSchema>;
+export type TimestampPrecision = z.infer<typeof TimestampPrecisionSchema>;
+export type TimestampField = z.infer<typeof TimestampFieldSchema>;
+export type TimelineField = z.infer<typeof TimelineFieldSchema>;
+export type OutputField = z.infer<typeof OutputFieldSchema>;
+export type ParserRef = z.infer<typeof ParserRefSchema>;
+export type CommandVariable = z.infer<typeof CommandVariableSchema>;
+export type EventIdGroup = z.infer<typeof EventIdGroupSchema>;
+export type CollectionSteps = z.infer<typeof CollectionStepsSchema>;
+export type Reference = z.infer<typeof ReferenceSchema>;
+export type RelationType = z.infer<typeof RelationTypeSchema>;
+export type Relation = z.infer<typeof RelationSchema>;
+export type Artifact = z.infer<typeof ArtifactSchema>;
+export type AttackMapping = z.infer<typeof AttackMappingSchema>;
+export type AttackMatrix = z.infer<typeof AttackMatrixSchema>;
+
+export type DataIssue = {
+  path: string;         // JSON path, e.g. "$[3].references[0].url"
+  artifactId?: string;  // id of the enclosing artifact, when it has one
+  message: string;
+};
+
+export type DataReport = { errors: DataIssue[]; warnings: DataIssue[] };
+
+export function formatPath(path: Array<string | number>): string {
+  return "$" + path.map((p) => (typeof p === "number" ? `[${p}]` : `.${p}`)).join("");
+}
+
+function artifactIdAt(data: unknown, path: Array<string | number>): string | undefined {
+  if (!Array.isArray(data) || typeof path[0] !== "number") return undefined;
+  const entry = data[path[0]] as { id?: unknown } | undefined;
+  return typeof entry?.id === "string" ? entry.id : undefined;
+}
+
+// Zod strips unknown keys silently; walk the data alongside the schema so
+// hand-edited typos like "summmary" or "tz_behaviour" are at least reported.
+function collectUnknownKeys(schema: z.ZodTypeAny, value: unknown, path: Array<string | number>, out: Array<Array<string | number>>) {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    collectUnknownKeys(schema.unwrap(), value, path, out);
+  } else if (schema instanceof z.ZodArray && Array.isArray(value)) {
+    value.forEach((v, i) => collectUnknownKeys(schema.element, v, [...path, i], out));
+  } else if (schema instanceof z.ZodObject && value && typeof value === "object" && !Array.isArray(value)) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    for (const [key, v] of Object.entries(value)) {
+      if (key in shape) collectUnknownKeys(shape[key], v, [...path, key], out);
+      else out.push([...path, key]);
+    }
+  } else if (schema instanceof z.ZodRecord && value && typeof value === "object" && !Array.isArray(value)) {
+    for (const [key, v] of Object.entries(value)) collectUnknownKeys(schema.valueSchema, v, [...path, key], out);
+  } else if (schema instanceof z.ZodUnion && value && typeof value === "object" && !Array.isArray(value)) {
+    const option = (schema.options as z.ZodTypeAny[]).find((o) => o instanceof z.ZodObject);
+    if (option) collectUnknownKeys(option, value, path, out);
+  }
+}
+
+// `base` is the path of `data` inside its file, for lists that are not the top level.
+function findDuplicates(data: unknown[], key: "id" | "slug" | "name", base: Array<string | number> = []): DataIssue[] {
+  const seen = new Map<string, number>();
+  const issues: DataIssue[] = [];
+  data.forEach((entry, i) => {
+    const value = (entry as Record<string, unknown> | null)?.[key];
+    if (typeof value !== "string") return;
+    const first = seen.get(value);
+    if (first === undefined) seen.set(value, i);
+    else issues.push({ path: formatPath([...base, i, key]), artifactId: base.length ? undefined : artifactIdAt(data, [i]), message: `Duplicate ${key} "${value}" (first used at ${formatPath([...base, first])})` });
+  });
+  return issues;
+}
+
+/** Other data files that artifacts refer to; checks against a file are skipped when it is not provided. */
+export type ValidationContext = { commandVariables?: CommandVariable[]; attack?: AttackMatrix; platforms?: PlatformDef[]; timelineFields?: TimelineField[] };
+
+// An artifact that parsed, with its index in the file for issue paths.
+type ParsedEntry = [number, Artifact];
+
+// Placeholders like "<custom path set by attacker>" describe where to look rather than a path.
+const FREE_TEXT_LOCATION = /^<.+>$/;
+
+function checkPlatforms(artifacts: ParsedEntry[], platforms: PlatformDef[]): DataIssue[] {
+  const byId = new Map(platforms.map((p) => [p.id, { ...p, patterns: p.paths.map((c) => new RegExp(c.pattern)) }]));
+  const issues: DataIssue[] = [];
+  artifacts.forEach(([i, a]) => {
+    const platform = byId.get(a.platform);
+    if (!platform) {
+      issues.push({ path: formatPath([i, "platform"]), artifactId: a.id, message: `Unknown platform "${a.platform}" (define it in data/platforms.json)` });
+      return;
+    }
+    a.locations?.forEach((l, j) => {
+      if (FREE_TEXT_LOCATION.test(l.path) || platform.patterns.some((re) => re.test(l.path))) return;
+      const expected = platform.paths.map((c) => `${c.label} like ${c.example}`).join("; ");
+      issues.push({ path: formatPath([i, "locations", j, "path"]), artifactId: a.id, message: `"${l.path}" is not a ${platform.label} location (expected ${expected})` });
+    });
+  });
+  return issues;
+}
+
+// Names of placeholders outside any quotes; a path with a space would split into two arguments there.
+function unquotedPlaceholders(template: string): string[] {
+  const names: string[] = [];
+  let quote = "";
+  for (const part of template.split(/(["']|\{[a-z][a-z0-9_]*\})/)) {
+    if (part === "\"" || part === "'") quote = quote === part ? "" : quote || part;
+    else if (!quote && /^\{[a-z][a-z0-9_]*\}$/.test(part)) names.push(part.slice(1, -1));
+  }
+  return names;
+}
+
+function checkPlaceholders(artifacts: ParsedEntry[], variables: CommandVariable[]): DataIssue[] {
+  const known = new Map(variables.map((v) => [v.name, v]));
+  const issues: DataIssue[] = [];
+  artifacts.forEach(([i, a]) => a.parsers?.forEach((p, j) => {
+    const used = [p.command_example ?? "", ...Object.values(p.variables ?? {})].flatMap((t) => Array.from(t.matchAll(PLACEHOLDER_PATTERN), (m) => m[1]));
+    for (const name of new Set([...used, ...Object.keys(p.variables ?? {})])) {
+      if (!known.has(name)) issues.push({ path: formatPath([i, "parsers", j]), artifactId: a.id, message: `Unknown command variable "{${name}}" (define it in data/command-variables.json)` });
+    }
+    for (const name of new Set(unquotedPlaceholders(p.command_example ?? ""))) {
+      if (known.get(name)?.type === "path") issues.push({ path: formatPath([i, "parsers", j, "command_example"]), artifactId: a.id, message: `Path placeholder {${name}} is not quoted; write "{${name}}" so a path with spaces stays one argument` });
+    }
+  }));
+  return issues;
+}
+
+function checkOutputFields(artifacts: ParsedEntry[], fields: TimelineField[]): DataIssue[] {
+  const known = new Set(fields.map((f) => f.id));
+  const issues: DataIssue[] = [];
+  artifacts.forEach(([i, a]) => a.parsers?.forEach((p, j) => {
+    for (const [column, out] of Object.entries(p.output_fields ?? {})) {
+      if (typeof out !== "string" && !known.has(out.field)) issues.push({ path: formatPath([i, "parsers", j, "output_fields", column, "field"]), artifactId: a.id, message: `Unknown timeline field "${out.field}" (define it in data/timeline-fields.json)` });
+    }
+  }));
+  return issues;
+}
+
+// `ids` comes from every entry, so a relation to one that failed to parse is not reported twice.
+function checkRelations(artifacts: ParsedEntry[], ids: Set<unknown>): DataIssue[] {
+  const issues: DataIssue[] = [];
+  artifacts.forEach(([i, a]) => a.relations?.forEach((r, j) => {
+    const path = formatPath([i, "relations", j, "target"]);
+    if (r.target === a.id) issues.push({ path, artifactId: a.id, message: "Artifact cannot be related to itself" });
+    else if (!ids.has(r.target)) issues.push({ path, artifactId: a.id, message: `Relation target "${r.target}" is not an artifact id` });
+  }));
+  return issues;
+}
+
+// The Event ID index keys on (source, id), so a group names one log and titles only its own IDs.
+function checkEventIds(artifacts: ParsedEntry[]): { errors: DataIssue[]; warnings: DataIssue[] } {
+  const errors: DataIssue[] = [];
+  const warnings: DataIssue[] = [];
+  artifacts.forEach(([i, a]) => a.event_ids?.forEach((g, j) => {
+    if (g.source.includes(" / ")) warnings.push({ path: formatPath([i, "event_ids", j, "source"]), artifactId: a.id, message: `Source "${g.source}" names several logs; split the group so each ID is filed under its own log` });
+    for (const id of Object.keys(g.titles ?? {})) {
+      if (!g.ids.includes(id)) errors.push({ path: formatPath([i, "event_ids", j, "titles", id]), artifactId: a.id, message: `Title for event ${id}, which is not in this group's ids` });
+    }
+  }));
+  return { errors, warnings };
+}
+
+const normalizeTactic = (name: string) => name.toLowerCase().replace(/[^a-z]/g, "");
+
+function checkAttack(artifacts: ParsedEntry[], matrix: AttackMatrix): { errors: DataIssue[]; warnings: DataIssue[] } {
+  const tactics = new Map(matrix.tactics.map((t) => [t.id, t]));
+  const techniques = new Map(matrix.techniques.map((t) => [t.id, t]));
+  const canonical = new Map(matrix.tactics.map((t) => [normalizeTactic(t.name), t.name]));
+  const errors: DataIssue[] = [];
+  const warnings: DataIssue[] = [];
+  artifacts.forEach(([i, a]) => {
+    a.attack?.tactics?.forEach((id, j) => {
+      if (!tactics.has(id)) errors.push({ path: formatPath([i, "attack", "tactics", j]), artifactId: a.id, message: `Unknown ATT&CK tactic "${id}"` });
+    });
+    a.attack?.techniques?.forEach((id, j) => {
+      const path = formatPath([i, "attack", "techniques", j]);
+      const technique = techniques.get(id);
+      if (!technique) {
+        errors.push({ path, artifactId: a.id, message: `Unknown ATT&CK technique "${id}" (not in data/attack.json ${matrix.version})` });
+        return;
+      }
+      const of = techniques.get(id.split(".")[0])?.tactics ?? [];
+      if (a.attack?.tactics?.length && !of.some((t) => a.attack!.tactics!.includes(t))) {
+        warnings.push({ path, artifactId: a.id, message: `${id} ${technique.name} belongs to ${of.map((t) => tactics.get(t)?.name ?? t).join(", ")}, none of which are listed in attack.tactics` });
+      }
+    });
+    // Free-form tags stay allowed, but ones that are an ATT&CK tactic should be spelled like it.
+    a.tactic_tags?.forEach((tag, j) => {
+      const name = canonical.get(normalizeTactic(tag));
+      if (name && name !== tag) warnings.push({ path: formatPath([i, "tactic_tags", j]), artifactId: a.id, message: `Tactic tag "${tag}" should be spelled "${name}"` });
+    });
+  });
+  return { errors, warnings };
+}
+
+export function validateArtifacts(data: unknown, context: ValidationContext = {}): DataReport {
+  const errors: DataIssue[] = [];
+  const warnings: DataIssue[] = [];
+
+  if (!Array.isArray(data)) {
+    const result = ArtifactListSchema.safeParse(data);
+    if (!result.success) errors.push(...result.error.issues.map((issue) => ({ path: formatPath(issue.path), message: issue.message })));
+    return { errors, warnings };
+  }
+
+  // Entries are parsed one by one so a broken entry does not hide the cross-checks on the rest.
+  const parsed: ParsedEntry[] = [];
+  data.forEach((entry, i) => {
+    const result = ArtifactSchema.safeParse(entry);
+    if (result.success) parsed.push([i, result.data]);
+    else for (const issue of result.error.issues) {
+      const path = [i, ...issue.path];
+      errors.push({ path: formatPath(path), artifactId: artifactIdAt(data, path), message: issue.message });
+    }
+  });
+
+  errors.push(...findDuplicates(data, "id"), ...findDuplicates(data, "slug"));
+  const eventIds = checkEventIds(parsed);
+  errors.push(...checkRelations(parsed, new Set(data.map((entry) => (entry as { id?: unknown } | null)?.id))), ...eventIds.errors);
+  warnings.push(...eventIds.warnings);
+  if (context.platforms) errors.push(...checkPlatforms(parsed, context.platforms));
+  if (context.commandVariables) errors.push(...checkPlaceholders(parsed, context.commandVariables));
+  if (context.timelineFields) errors.push(...checkOutputFields(parsed, context.timelineFields));
+  if (context.attack) {
+    const attack = checkAttack(parsed, context.attack);
+    errors.push(...attack.errors);
+    warnings.push(...attack.warnings);
+  }
+
+  const unknown: Array<Array<string | number>> = [];
+  collectUnknownKeys(ArtifactListSchema, data, [], unknown);
+  for (const path of unknown) {
+    warnings.push({ path: formatPath(path), artifactId: artifactIdAt(data, path), message: `Unknown key "${path[path.length - 1]}"` });
+  }
+
+  return { errors, warnings };
+}
+
+export function validateCommandVariables(data: unknown): DataReport {
+  const result = CommandVariableListSchema.safeParse(data);
+  const errors: DataIssue[] = result.success ? [] : result.error.issues.map((issue) => ({ path: formatPath(issue.path), message: issue.message }));
+  if (!Array.isArray(data)) return { errors, warnings: [] };
+  errors.push(...findDuplicates(data, "name"));
+  if (result.success) {
+    const known = new Set(result.data.map((v) => v.name));
+    result.data.forEach((v, i) => {
+      for (const [, name] of (v.default ?? "").matchAll(PLACEHOLDER_PATTERN)) {
+        if (!known.has(name)) errors.push({ path: formatPath([i, "default"]), message: `Unknown command variable "{${name}}"` });
+      }
+    });
+  }
+  const unknown: Array<Array<string | number>> = [];
+  collectUnknownKeys(CommandVariableListSchema, data, [], unknown);
+  return { errors, warnings: unknown.map((path) => ({ path: formatPath(path), message: `Unknown key "${path[path.length - 1]}"` })) };
+}
+
+export function validateAttackMatrix(data: unknown): DataReport {
+  const result = AttackMatrixSchema.safeParse(data);
+  const errors: DataIssue[] = result.success ? [] : result.error.issues.map((issue) => ({ path: formatPath(issue.path), message: issue.message }));
+  if (!result.success) return { errors, warnings: [] };
+  const { tactics, techniques } = result.data;
+  errors.push(...findDuplicates(tactics, "id", ["tactics"]), ...findDuplicates(techniques, "id", ["techniques"]));
+  const tacticIds = new Set(tactics.map((t) => t.id));
+  const byId = new Map(techniques.map((t) => [t.id, t]));
+  techniques.forEach((t, i) => {
+    const path = formatPath(["techniques", i]);
+    const parent = t.id.includes(".") ? byId.get(t.id.split(".")[0]) : undefined;
+    if (t.id.includes(".") && !parent) errors.push({ path, message: `Sub-technique ${t.id} has no parent technique in the file` });
+    if (!t.id.includes(".") && !t.tactics) errors.push({ path, message: `Technique ${t.id} needs at least one tactic` });
+    t.tactics?.forEach((id) => { if (!tacticIds.has(id)) errors.push({ path, message: `Unknown tactic "${id}"` }); });
+  });
+  const unknown: Array<Array<string | number>> = [];
+  collectUnknownKeys(AttackMatrixSchema, data, [], unknown);
+  return { errors, warnings: unknown.map((path) => ({ path: formatPath(path), message: `Unknown key "${path[path.length - 1]}"` })) };
+}
+
+export function validatePlatforms(data: unknown): DataReport {
+  const result = PlatformListSchema.safeParse(data);
+  const errors: DataIssue[] = result.success ? [] : result.error.issues.map((issue) => ({ path: formatPath(issue.path), message: issue.message }));
+  if (!Array.isArray(data)) return { errors, warnings: [] };
+  errors.push(...findDuplicates(data, "id"));
+  result.data?.forEach((p, i) => p.paths.forEach((c, j) => {
+    const path = formatPath([i, "paths", j]);
+    let re: RegExp;
+    try { re = new RegExp(c.pattern); } catch (err) {
+      errors.push({ path, message: `Invalid pattern: ${(err as Error).message}` });
+      return;
+    }
+    if (!re.test(c.example)) errors.push({ path, message: `Example "${c.example}" does not match its own pattern` });
+  }));
+  const unknown: Array<Array<string | number>> = [];
+  collectUnknownKeys(PlatformListSchema, data, [], unknown);
+  return { errors, warnings: unknown.map((path) => ({ path: formatPath(path), message: `Unknown key "${path[path.length - 1]}"` })) };
+}
+
+export function validateTimelineFields(data: unknown): DataReport {
+  const result = TimelineFieldListSchema.safeParse(data);
+  const errors: DataIssue[] = result.success ? [] : result.error.issues.map((issue) => ({ path: formatPath(issue.path), message: issue.message }));
+  if (!Array.isArray(data)) return { errors, warnings: [] };
+  errors.push(...findDuplicates(data, "id"));
+  const unknown: Array<Array<string | number>> = [];
+  collectUnknownKeys(TimelineFieldListSchema, data, [], unknown);
+  return { errors, warnings: unknown.map((path) => ({ path: formatPath(path), message: `Unknown key "${path[path.length - 1]}"` })) };
+}
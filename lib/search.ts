@@ -0,0 +1,186 @@
+import { techniqueLabel } from "@/lib/attack";
+import { parseIdList } from "@/lib/eventIds";
+import type { Artifact } from "@/lib/schema";
+
+/**
+ * Weighted inverted index over every text field of an artifact.
+ *
+ * The index is built once at build time (see app/page.tsx) and shipped to the
+ * explorer as plain JSON; the browser only tokenizes the query and walks
+ * posting lists, so search stays fast as the catalogue grows.
+ */
+export type SearchIndex = {
+  docs: string[];                    // artifact ids, in catalogue order
+  terms: Record<string, number[]>;   // term -> flat [docIndex, score, docIndex, score, ...]
+};
+
+export type SearchMode = "prefix" | "fuzzy";
+
+// A name hit should outrank the same word buried in a long description.
+const FIELD_WEIGHTS: Array<[number, (a: Artifact) => Array<string | undefined>]> = [
+  [10, (a) => [a.name, a.slug]],
+  [6, (a) => (a.event_ids ?? []).flatMap((g) => g.ids)],
+  [5, (a) => [...(a.parsers ?? []).map((p) => p.tool_name), ...(a.locations ?? []).map((l) => l.path)]],
+  [4, (a) => [a.summary, a.platform, a.artifact_class, ...(a.tactic_tags ?? [])]],
+  [3, (a) => (a.timestamps ?? []).flatMap((t) => [t.name, t.source])],
+  [2, (a) => [
+    a.description,
+    ...(a.parsers ?? []).map((p) => p.command_example),
+    ...(a.locations ?? []).flatMap((l) => [l.scope, l.notes]),
+    ...(a.event_ids ?? []).flatMap((g) => [g.source, g.description]),
+    ...(a.attack?.techniques ?? []).map(techniqueLabel),
+  ]],
+  [1, (a) => [
+    ...(a.validation ?? []),
+    ...(a.known_pitfalls ?? []),
+    ...(a.collection_methods ?? []),
+    ...(a.timestamps ?? []).map((t) => t.notes),
+    ...(a.collection_steps ?? []).flatMap((g) => [g.category, ...g.steps]),
+    ...(a.gui_log_collection_steps ?? []),
+    ...(a.due_diligence_checks ?? []),
+    ...(a.additional_checks ?? []),
+    ...(a.references ?? []).map((r) => r.title),
+  ]],
+];
+
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+export function buildSearchIndex(artifacts: Artifact[]): SearchIndex {
+  const terms: Record<string, number[]> = {};
+  artifacts.forEach((a, doc) => {
+    const scores = new Map<string, number>();
+    for (const [weight, pick] of FIELD_WEIGHTS) {
+      const counts = new Map<string, number>();
+      for (const text of pick(a)) if (text) for (const t of tokenize(text)) counts.set(t, (counts.get(t) ?? 0) + 1);
+      // Dampen repetition so one chatty field cannot dominate the score.
+      counts.forEach((n, t) => scores.set(t, (scores.get(t) ?? 0) + weight * (1 + Math.log(n))));
+    }
+    scores.forEach((score, t) => (terms[t] ||= []).push(doc, Math.round(score * 10) / 10));
+  });
+  return { docs: artifacts.map((a) => a.id), terms };
+}
+
+export type Qualifier = "platform" | "tactic" | "tool" | "eventid" | "path" | "technique";
+export const QUALIFIERS: Qualifier[] = ["platform", "tactic", "tool", "eventid", "path", "technique"];
+
+export type QueryClause =
+  | { kind: "term"; value: string; negate: boolean }
+  | { kind: "qualifier"; field: Qualifier; value: string; negate: boolean };
+
+/**
+ * Parse `amcache platform:windows -tool:KAPE tactic:"defense evasion" -m365`.
+ * Unknown qualifiers (`foo:bar`) fall back to plain terms.
+ */
+export function parseQuery(input: string): QueryClause[] {
+  const clauses: QueryClause[] = [];
+  for (const m of input.matchAll(/(-?)(?:(\w+):)?(?:"([^"]*)"?|(\S+))/g)) {
+    const negate = m[1] === "-";
+    const field = m[2]?.toLowerCase();
+    const value = (m[3] ?? m[4] ?? "").trim();
+    if (!value) continue;
+    if (field && (QUALIFIERS as string[]).includes(field)) {
+      clauses.push({ kind: "qualifier", field: field as Qualifier, value: value.toLowerCase(), negate });
+    } else {
+      const text = field ? `${field}:${value}` : value;
+      for (const t of tokenize(text)) clauses.push({ kind: "term", value: t, negate });
+    }
+  }
+  return clauses;
+}
+
+function matchesQualifier(a: Artifact, field: Qualifier, value: string): boolean {
+  const has = (xs: Array<string | undefined>) => xs.some((x) => x?.toLowerCase().includes(value));
+  switch (field) {
+    case "platform": return a.platform.startsWith(value);
+    case "tactic": return has(a.tactic_tags ?? []);
+    case "tool": return has((a.parsers ?? []).map((p) => p.tool_name));
+    case "eventid": {   // 4624, or a list/range like 4624-4634,4672
+      const ids = new Set(parseIdList(value).ids);
+      return (a.event_ids ?? []).some((g) => g.ids.some((id) => ids.has(Number(id))));
+    }
+    case "path": return has((a.locations ?? []).map((l) => l.path));
+    case "technique": return (a.attack?.techniques ?? []).some((t) => t.toLowerCase().startsWith(value));   // T1053 also matches T1053.005
+  }
+}
+
+// Bounded edit distance (optimal string alignment, so "amcahce" is one edit
+// from "amcache"); returns max + 1 as soon as the distance must exceed `max`.
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev2: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) cur[j] = Math.min(cur[j], prev2[j - 2] + 1);
+      rowMin = Math.min(rowMin, cur[j]);
+    }
+    if (rowMin > max) return max + 1;
+    prev2 = prev;
+    prev = cur;
+  }
+  return prev[b.length];
+}
+
+/** Index terms a query term stands for, with a multiplier for how loose the match is. */
+function expandTerm(index: SearchIndex, term: string, mode: SearchMode): Array<[string, number]> {
+  const out: Array<[string, number]> = [];
+  // Numbers (event IDs) must match exactly: 4698 and 4688 are different events.
+  const maxEdits = mode !== "fuzzy" || /^\d+$/.test(term) ? 0 : term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+  for (const t of Object.keys(index.terms)) {
+    if (t === term) out.push([t, 1]);
+    else if (t.startsWith(term)) out.push([t, 0.6]);
+    else if (maxEdits > 0 && editDistance(term, t, maxEdits) <= maxEdits) out.push([t, 0.4]);
+  }
+  return out;
+}
+
+export type SearchHit = { artifact: Artifact; score: number; matched: string[] };
+
+/**
+ * Run a parsed query. Every positive term must match (AND); negated terms and
+ * qualifiers exclude. With no positive terms, results keep catalogue order.
+ */
+export function searchArtifacts(index: SearchIndex, artifacts: Artifact[], query: string, mode: SearchMode = "prefix"): SearchHit[] {
+  const clauses = parseQuery(query);
+  const byId = new Map(artifacts.map((a) => [a.id, a]));
+  const hits = new Map<number, { score: number; matched: Set<string> }>();
+  index.docs.forEach((_, doc) => hits.set(doc, { score: 0, matched: new Set() }));
+
+  for (const clause of clauses) {
+    if (clause.kind === "qualifier") {
+      hits.forEach((_, doc) => {
+        const a = byId.get(index.docs[doc]);
+        if (!a || matchesQualifier(a, clause.field, clause.value) === clause.negate) hits.delete(doc);
+      });
+      continue;
+    }
+    const found = new Map<number, { score: number; terms: string[] }>();
+    for (const [t, factor] of expandTerm(index, clause.value, clause.negate ? "prefix" : mode)) {
+      if (clause.negate && factor < 1) continue; // `-m365` excludes exact matches only
+      const postings = index.terms[t];
+      for (let i = 0; i < postings.length; i += 2) {
+        const f = found.get(postings[i]) ?? { score: 0, terms: [] };
+        f.score = Math.max(f.score, postings[i + 1] * factor);
+        f.terms.push(t);
+        found.set(postings[i], f);
+      }
+    }
+    hits.forEach((hit, doc) => {
+      const f = found.get(doc);
+      if (clause.negate ? f : !f) { hits.delete(doc); return; }
+      if (f) { hit.score += f.score; f.terms.forEach((t) => hit.matched.add(t)); }
+    });
+  }
+
+  const ranked = clauses.some((c) => c.kind === "term" && !c.negate);
+  return Array.from(hits.entries())
+    .map(([doc, h]) => ({ doc, artifact: byId.get(index.docs[doc]), score: h.score, matched: Array.from(h.matched) }))
+    .filter((h): h is { doc: number; artifact: Artifact; score: number; matched: string[] } => h.artifact !== undefined)
+    .sort((x, y) => (ranked ? y.score - x.score : 0) || x.doc - y.doc)
+    .map(({ artifact, score, matched }) => ({ artifact, score, matched }));
+}
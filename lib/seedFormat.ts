@@ -0,0 +1,107 @@
+import type { Artifact } from "@/lib/schema";
+
+/**
+ * The formatting of data/seed.json, shared by the editor's download, the local overlay export
+ * and `npm run import-artifacts`, so whatever they write looks like its neighbours in the seed.
+ */
+
+const WIDTH = 120;
+const ENTRY_INDENT = "    ";
+
+const isPlain = (v: unknown) => v === null || typeof v !== "object";
+const hasRows = (v: unknown) => Array.isArray(v) && v.some((x) => !isPlain(x));
+const isMapOfRows = (v: unknown) => !isPlain(v) && !Array.isArray(v) && Object.values(v as object).some((x) => !isPlain(x) && !Array.isArray(x));
+
+function inline(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(inline).join(", ")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value);
+    return entries.length ? `{ ${entries.map(([k, v]) => `${JSON.stringify(k)}: ${inline(v)}`).join(", ")} }` : "{}";
+  }
+  return JSON.stringify(value);
+}
+
+// The rules the hand formatting follows, measured on the whole line including key and comma:
+// - lists of short values (tags, IDs) always on one line, other plain lists when the line fits;
+// - plain objects (ATT&CK, variables, titles) on one line;
+// - lists of objects one row per line; a single location on one line when it fits;
+// - rows holding lists or maps of objects (event ID groups, steps, parsers with mapped columns)
+//   spelled out, as are maps of objects (mapped output fields).
+function field(key: string, value: unknown, indent: string): string {
+  const head = `${indent}${JSON.stringify(key)}: `;
+  const inner = `${indent}  `;
+  const fits = (text: string) => head.length + text.length + 1 <= WIDTH;
+  if (Array.isArray(value)) {
+    const short = value.every((v) => isPlain(v) && String(v).length <= 24);
+    if (value.every(isPlain) && (short || fits(inline(value)))) return head + inline(value);
+    if (key === "locations" && value.length === 1 && !isSpelledOut(value[0]) && fits(inline(value))) return head + inline(value);
+    return `${head}[\n${value.map((v) => element(v, inner)).join(",\n")}\n${indent}]`;
+  }
+  if (value && typeof value === "object" && (Object.values(value).some(hasRows) || isMapOfRows(value))) {
+    return `${head}{\n${Object.entries(value).map(([k, v]) => field(k, v, inner)).join(",\n")}\n${indent}}`;
+  }
+  return head + inline(value);
+}
+
+const isSpelledOut = (row: unknown) => !isPlain(row) && Object.values(row as object).some((v) => Array.isArray(v) || isMapOfRows(v));
+
+function spelledOut(value: object, indent: string): string {
+  return `${indent}{\n${Object.entries(value).map(([k, v]) => field(k, v, `${indent}  `)).join(",\n")}\n${indent}}`;
+}
+
+function element(value: unknown, indent: string): string {
+  return isSpelledOut(value) ? spelledOut(value as object, indent) : indent + inline(value);
+}
+
+/** The artifact as an entry of data/seed.json, indented to paste into the top-level array. */
+export function seedEntry(artifact: Artifact): string {
+  return spelledOut(artifact, ENTRY_INDENT);
+}
+
+/** Where each top-level entry of a seed file starts (at its line) and ends (after its closing brace). */
+function entrySpans(text: string): Array<[number, number]> {
+  const spans: Array<[number, number]> = [];
+  let depth = 0;
+  let start = 0;
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === "\\") i++;
+      else if (c === '"') quoted = false;
+    } else if (c === '"') quoted = true;
+    else if (c === "[" || c === "{") {
+      if (depth === 1) start = text.lastIndexOf("\n", i) + 1;
+      depth++;
+    } else if (c === "]" || c === "}") {
+      depth--;
+      if (depth === 1) spans.push([start, i + 1]);
+    }
+  }
+  return spans;
+}
+
+/**
+ * `text` (a seed file holding `before`) with `after` written in: entries that did not change
+ * are kept byte for byte, changed ones are reformatted where they stand and new ones are
+ * appended, so the diff shows only what changed. Entries are matched by id; none may be dropped.
+ */
+export function updateSeedFile(text: string, before: Artifact[], after: Artifact[]): string {
+  const spans = entrySpans(text);
+  if (spans.length !== before.length) throw new Error(`expected ${before.length} entries in the seed text, found ${spans.length}`);
+  const updated = new Map(after.map((a) => [a.id, a]));
+  const dropped = before.filter((a) => !updated.has(a.id));
+  if (dropped.length) throw new Error(`entries would be dropped: ${dropped.map((a) => a.id).join(", ")}`);
+
+  let out = "";
+  let at = 0;
+  before.forEach((a, i) => {
+    const [start, end] = spans[i];
+    const next = updated.get(a.id)!;
+    out += text.slice(at, start) + (JSON.stringify(next) === JSON.stringify(a) ? text.slice(start, end) : seedEntry(next));
+    at = end;
+  });
+  const added = after.filter((a) => !before.some((b) => b.id === a.id)).map(seedEntry);
+  if (spans.length === 0) return `[\n${added.join(",\n")}\n]\n`;
+  return out + added.map((e) => `,\n${e}`).join("") + text.slice(at);
+}
@@ -0,0 +1,105 @@
+import { z } from "zod";
+import type { AttackMatrix } from "@/lib/schema";
+
+/**
+ * MITRE publishes ATT&CK as a STIX 2.1 bundle (mitre-attack/attack-stix-data,
+ * enterprise-attack.json). data/attack.json is generated from it: tactics in
+ * matrix column order, every current technique and sub-technique, with the
+ * ATT&CK ids from each object's external references.
+ */
+
+export const ENTERPRISE_ATTACK_URL = "https://raw.githubusercontent.com/mitre-attack/attack-stix-data/master/enterprise-attack/enterprise-attack.json";
+
+const ExternalReferenceSchema = z.object({ source_name: z.string(), external_id: z.string().optional() }).passthrough();
+
+const StixObjectSchema = z.object({
+  type: z.string(),
+  id: z.string(),
+  name: z.string().optional(),
+  revoked: z.boolean().optional(),
+  x_mitre_deprecated: z.boolean().optional(),
+  x_mitre_version: z.string().optional(),
+  x_mitre_shortname: z.string().optional(),
+  x_mitre_is_subtechnique: z.boolean().optional(),
+  tactic_refs: z.array(z.string()).optional(),
+  kill_chain_phases: z.array(z.object({ kill_chain_name: z.string(), phase_name: z.string() })).optional(),
+  external_references: z.array(ExternalReferenceSchema).optional(),
+}).passthrough();
+
+export const StixBundleSchema = z.object({
+  type: z.literal("bundle"),
+  objects: z.array(StixObjectSchema),
+}).passthrough();
+
+export type StixBundle = z.infer<typeof StixBundleSchema>;
+type StixObject = StixBundle["objects"][number];
+
+const attackId = (o: StixObject) => o.external_references?.find((r) => r.source_name === "mitre-attack")?.external_id;
+const current = (o: StixObject) => !o.revoked && !o.x_mitre_deprecated;
+const byId = (a: { id: string }, b: { id: string }) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+
+export function attackFromStix(bundle: StixBundle): AttackMatrix {
+  const objects = bundle.objects.filter(current);
+  const matrix = objects.find((o) => o.type === "x-mitre-matrix");
+  if (!matrix?.tactic_refs) throw new Error("The bundle has no x-mitre-matrix with tactic_refs");
+  // The collection carries the ATT&CK release ("15.1"); every other object versions only itself.
+  const version = objects.find((o) => o.type === "x-mitre-collection")?.x_mitre_version;
+  if (!version) throw new Error("The bundle has no x-mitre-collection with the ATT&CK version");
+
+  const stixTactics = new Map(objects.filter((o) => o.type === "x-mitre-tactic").map((o) => [o.id, o]));
+  const tactics = matrix.tactic_refs.map((ref) => {
+    const t = stixTactics.get(ref);
+    const id = t && attackId(t);
+    if (!t?.name || !id) throw new Error(`Matrix tactic ${ref} is missing from the bundle`);
+    return { id, name: t.name, shortname: t.x_mitre_shortname };
+  });
+  // Techniques name their tactics by kill chain phase, which is the tactic's shortname.
+  const byPhase = new Map(tactics.map((t) => [t.shortname, t.id]));
+
+  const techniques = objects
+    .filter((o) => o.type === "attack-pattern")
+    .flatMap((o) => {
+      const id = attackId(o);
+      if (!id || !o.name) return [];
+      // Sub-techniques inherit their parent's tactics, as in the rest of the explorer.
+      if (o.x_mitre_is_subtechnique) return [{ id, name: o.name }];
+      const of = (o.kill_chain_phases ?? [])
+        .filter((p) => p.kill_chain_name === "mitre-attack")
+        .flatMap((p) => byPhase.get(p.phase_name) ?? []);
+      return [{ id, name: o.name, tactics: tactics.map((t) => t.id).filter((t) => of.includes(t)) }];
+    })
+    .sort(byId);
+
+  return {
+    name: "MITRE ATT&CK Enterprise",
+    version,
+    note: "Generated by `npm run build-attack` from the enterprise-attack STIX bundle. Sub-techniques inherit their parent's tactics.",
+    tactics: tactics.map(({ id, name }) => ({ id, name })),
+    techniques,
+  };
+}
+
+/** data/attack.json layout: one tactic or technique per line. */
+export function formatAttackMatrix(matrix: AttackMatrix): string {
+  const line = (value: Record<string, string | string[] | undefined>) => {
+    const fields = Object.entries(value).flatMap(([k, v]) => {
+      if (v === undefined) return [];
+      return [`"${k}": ${Array.isArray(v) ? `[${v.map((x) => JSON.stringify(x)).join(", ")}]` : JSON.stringify(v)}`];
+    });
+    return `    { ${fields.join(", ")} }`;
+  };
+  return [
+    "{",
+    `  "name": ${JSON.stringify(matrix.name)},`,
+    `  "version": ${JSON.stringify(matrix.version)},`,
+    ...(matrix.note ? [`  "note": ${JSON.stringify(matrix.note)},`] : []),
+    "  \"tactics\": [",
+    matrix.tactics.map(line).join(",\n"),
+    "  ],",
+    "  \"techniques\": [",
+    matrix.techniques.map(line).join(",\n"),
+    "  ]",
+    "}",
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,265 @@
+import type { TimestampEncoding, TimestampField, TimestampPrecision, TimezoneBehavior } from "@/lib/schema";
+
+/**
+ * Offline decoders for the raw timestamp encodings DFIR artifacts use. Values
+ * are normalised to `ticks`: 100 ns intervals since the Unix epoch, as a
+ * BigInt, so FILETIME precision survives (JS Dates stop at milliseconds).
+ */
+export type Decoded = { ticks: bigint; digits: number; note?: string };   // digits = fractional-second digits the encoding carries
+export type DecodeResult = { ok: true; value: Decoded } | { ok: false; error: string };
+
+export const ENCODINGS: TimestampEncoding[] = ["filetime", "unix_s", "unix_ms", "unix_us", "hfs_plus", "webkit", "ole", "systemtime", "iso8601"];
+
+export const ENCODING_LABEL: Record<TimestampEncoding, string> = {
+  filetime: "Windows FILETIME",
+  unix_s: "Unix epoch (seconds)",
+  unix_ms: "Unix epoch (milliseconds)",
+  unix_us: "Unix epoch (microseconds)",
+  hfs_plus: "HFS+ (seconds since 1904)",
+  webkit: "Chrome/WebKit (µs since 1601)",
+  ole: "OLE Automation / Excel date",
+  systemtime: "SYSTEMTIME (16 bytes hex)",
+  iso8601: "ISO 8601 string",
+};
+
+export const ENCODING_HINT: Record<TimestampEncoding, string> = {
+  filetime: "100 ns intervals since 1601-01-01 UTC. Decimal, 0x-prefixed hex, or the 8 bytes as shown in a hex editor (little-endian).",
+  unix_s: "Seconds since 1970-01-01 UTC; a fraction is allowed.",
+  unix_ms: "Milliseconds since 1970-01-01 UTC (JavaScript, Java, many JSON logs).",
+  unix_us: "Microseconds since 1970-01-01 UTC (Firefox places.sqlite, some Linux logs).",
+  hfs_plus: "Seconds since 1904-01-01 UTC (HFS+ catalog). Classic HFS stored local time instead.",
+  webkit: "Microseconds since 1601-01-01 UTC (Chrome/Edge History and Cookies).",
+  ole: "Days since 1899-12-30 with a fractional time of day (SRUM, Excel, VBA).",
+  systemtime: "Eight little-endian 16-bit words: year, month, weekday, day, hour, minute, second, milliseconds.",
+  iso8601: "e.g. 2024-03-01T12:34:56.789Z or 2024-03-01 12:34:56+01:00; without an offset it is read as UTC.",
+};
+
+export const TZ_LABEL: Record<TimezoneBehavior, string> = { utc: "UTC", local: "Local time", offset: "Carries its own offset", unknown: "Unknown" };
+export const PRECISION_LABEL: Record<TimestampPrecision, string> = { "100ns": "100 ns", us: "µs", ms: "ms", s: "seconds", "2s": "2 seconds", day: "day" };
+
+const TICKS_PER_SECOND = 10_000_000n;
+const TICKS_PER_MS = 10_000n;
+const FILETIME_UNIX_OFFSET = 116_444_736_000_000_000n;   // 1601-01-01 -> 1970-01-01 in 100 ns ticks
+const HFS_UNIX_OFFSET = 2_082_844_800n;                  // 1904-01-01 -> 1970-01-01 in seconds
+const OLE_UNIX_OFFSET_DAYS = 25_569;                     // 1899-12-30 -> 1970-01-01
+const MAX_MS = 8_640_000_000_000_000n;                   // JS Date range
+
+function floorDiv(a: bigint, b: bigint): bigint { const q = a / b; return a % b !== 0n && (a < 0n) !== (b < 0n) ? q - 1n : q; }
+
+/** Integer from decimal, 0x hex (big-endian), or space/colon separated bytes (little-endian, as a hex editor shows them). */
+function parseInteger(raw: string, bytes: number): { value: bigint; littleEndian: boolean } | null {
+  const text = raw.trim().replace(/[_,]/g, "");
+  if (/^\d+$/.test(text)) return { value: BigInt(text), littleEndian: false };
+  if (/^0x[0-9a-f]+$/i.test(text)) return { value: BigInt(text), littleEndian: false };
+  const hex = text.replace(/[\s:-]/g, "");
+  if (/^[0-9a-f]+$/i.test(hex) && hex.length === bytes * 2) {
+    const le = hex.match(/../g)!.reverse().join("");
+    return { value: BigInt(`0x${le}`), littleEndian: true };
+  }
+  return null;
+}
+
+// The sign is kept apart from the digits: BigInt("-0") is 0n, which would turn "-0.5" positive.
+function parseDecimal(raw: string): { sign: 1n | -1n; whole: bigint; fraction: string } | null {
+  const m = raw.trim().replace(/[_,]/g, "").match(/^(-?)(\d+)(?:\.(\d+))?$/);
+  return m ? { sign: m[1] ? -1n : 1n, whole: BigInt(m[2]), fraction: m[3] ?? "" } : null;
+}
+
+function daysInMonth(year: number, month: number): number {
+  const leap = (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+  return [31, leap ? 29 : 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31][month - 1];
+}
+
+/** Date.UTC without its two-digit-year shortcut (year 50 is not 1950); undefined when a field is out of range. */
+function utcMs(year: number, month: number, day: number, hour = 0, minute = 0, second = 0, ms = 0): number | undefined {
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth(year, month) || hour > 23 || minute > 59 || second > 59 || ms > 999) return undefined;
+  const date = new Date(Date.UTC(2000, month - 1, day, hour, minute, second, ms));
+  date.setUTCFullYear(year);
+  return date.getTime();
+}
+
+function checked(ticks: bigint, digits: number, note?: string): DecodeResult {
+  const ms = floorDiv(ticks, TICKS_PER_MS);
+  if (ms > MAX_MS || ms < -MAX_MS) return { ok: false, error: "Out of the representable date range" };
+  return { ok: true, value: { ticks, digits, note } };
+}
+
+const LE_NOTE = "Read as little-endian bytes";
+
+const DECODERS: Record<TimestampEncoding, (raw: string) => DecodeResult> = {
+  filetime(raw) {
+    const n = parseInteger(raw, 8);
+    if (!n) return { ok: false, error: "Expected a decimal, 0x hex or 8-byte value" };
+    return checked(n.value - FILETIME_UNIX_OFFSET, 7, n.littleEndian ? LE_NOTE : undefined);
+  },
+  unix_s(raw) {
+    const n = parseDecimal(raw);
+    if (!n) return { ok: false, error: "Expected a number of seconds" };
+    const fraction = n.fraction.slice(0, 7);
+    return checked(n.sign * (n.whole * TICKS_PER_SECOND + BigInt(fraction.padEnd(7, "0") || "0")), fraction.length);
+  },
+  unix_ms(raw) {
+    const n = parseDecimal(raw);
+    if (!n || n.fraction) return { ok: false, error: "Expected a whole number of milliseconds" };
+    return checked(n.sign * n.whole * TICKS_PER_MS, 3);
+  },
+  unix_us(raw) {
+    const n = parseDecimal(raw);
+    if (!n || n.fraction) return { ok: false, error: "Expected a whole number of microseconds" };
+    return checked(n.sign * n.whole * 10n, 6);
+  },
+  hfs_plus(raw) {
+    const n = parseInteger(raw, 4);
+    if (!n) return { ok: false, error: "Expected a decimal, 0x hex or 4-byte value" };
+    return checked((n.value - HFS_UNIX_OFFSET) * TICKS_PER_SECOND, 0, n.littleEndian ? LE_NOTE : undefined);
+  },
+  webkit(raw) {
+    const n = parseInteger(raw, 8);
+    if (!n) return { ok: false, error: "Expected a whole number of microseconds" };
+    return checked(n.value * 10n - FILETIME_UNIX_OFFSET, 6, n.littleEndian ? LE_NOTE : undefined);
+  },
+  ole(raw) {
+    const days = Number(raw.trim().replace(/,/g, "."));
+    if (!raw.trim() || !Number.isFinite(days)) return { ok: false, error: "Expected a number of days, e.g. 45352.5234" };
+    // OLE dates round-trip through doubles; milliseconds is the most they can honestly claim.
+    const ms = Math.round((days - OLE_UNIX_OFFSET_DAYS) * 86_400_000);
+    return checked(BigInt(ms) * TICKS_PER_MS, 3);
+  },
+  systemtime(raw) {
+    const hex = raw.trim().replace(/^0x/i, "").replace(/[\s:-]/g, "");
+    if (!/^[0-9a-f]{32}$/i.test(hex)) return { ok: false, error: "Expected 16 bytes of hex" };
+    const words = hex.match(/..../g)!.map((w) => parseInt(w.slice(2, 4) + w.slice(0, 2), 16));
+    const [year, month, , day, hour, minute, second, ms] = words;
+    const utc = utcMs(year, month, day, hour, minute, second, ms);
+    if (utc === undefined) return { ok: false, error: "Fields out of range (not a SYSTEMTIME?)" };
+    return checked(BigInt(utc) * TICKS_PER_MS, 3, "SYSTEMTIME carries no zone; shown as UTC");
+  },
+  iso8601(raw) {
+    const m = raw.trim().match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:[.,](\d+))?)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/i);
+    if (!m) return { ok: false, error: "Not an ISO 8601 date/time" };
+    const [, y, mo, d, h = "0", mi = "0", s = "0", frac = "", zone] = m;
+    let ms = utcMs(+y, +mo, +d, +h, +mi, +s);
+    if (ms === undefined) return { ok: false, error: "Date or time out of range (e.g. month 13, 31 April, hour 25)" };
+    if (zone && zone.toUpperCase() !== "Z") {
+      const sign = zone[0] === "-" ? -1 : 1;
+      const [oh, om] = [zone.slice(1, 3), zone.slice(-2)].map(Number);
+      if (oh > 14 || om > 59) return { ok: false, error: `Offset ${zone} out of range` };
+      ms -= sign * (oh * 60 + om) * 60_000;
+    }
+    const fraction = frac.slice(0, 7);
+    return checked(BigInt(ms) * TICKS_PER_MS + BigInt(fraction.padEnd(7, "0") || "0"), fraction.length, zone ? undefined : "No offset given; read as UTC");
+  },
+};
+
+export function decodeTimestamp(raw: string, encoding: TimestampEncoding): DecodeResult {
+  if (!raw.trim()) return { ok: false, error: "Enter a value" };
+  return DECODERS[encoding](raw);
+}
+
+/** Years a modern artifact could plausibly carry; used to rank "auto" candidates. */
+export function isPlausible(d: Decoded): boolean {
+  const year = new Date(Number(floorDiv(d.ticks, TICKS_PER_MS))).getUTCFullYear();
+  return year >= 1990 && year <= 2100;
+}
+
+// ---------- Formatting ----------
+
+function fraction(ticks: bigint, digits: number): string {
+  if (digits === 0) return "";
+  const sub = ticks - floorDiv(ticks, TICKS_PER_SECOND) * TICKS_PER_SECOND;
+  return "." + sub.toString().padStart(7, "0").slice(0, digits);
+}
+
+function pad(n: number, w = 2) { return String(n).padStart(w, "0"); }
+
+export function formatUtc(d: Decoded): string {
+  const date = new Date(Number(floorDiv(d.ticks, TICKS_PER_MS)));
+  return `${pad(date.getUTCFullYear(), 4)}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())} ${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}${fraction(d.ticks, d.digits)} UTC`;
+}
+
+function zoneParts(ms: number, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone, hourCycle: "h23", year: "numeric", month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit", second: "2-digit", timeZoneName: "longOffset",
+  }).formatToParts(new Date(ms));
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? "";
+  return { year: +get("year"), month: +get("month"), day: +get("day"), hour: +get("hour"), minute: +get("minute"), second: +get("second"), offset: get("timeZoneName") };
+}
+
+export function formatInZone(d: Decoded, timeZone: string): string {
+  const p = zoneParts(Number(floorDiv(d.ticks, TICKS_PER_MS)), timeZone);
+  return `${pad(p.year, 4)}-${pad(p.month)}-${pad(p.day)} ${pad(p.hour)}:${pad(p.minute)}:${pad(p.second)}${fraction(d.ticks, d.digits)} ${p.offset.replace("GMT", "UTC") || "UTC"}`;
+}
+
+function offsetMs(ms: number, timeZone: string): number {
+  const p = zoneParts(ms, timeZone);
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - Math.floor(ms / 1000) * 1000;
+}
+
+/**
+ * Re-read a decoded value as wall-clock time in `timeZone` (for fields stored
+ * in the host's local time) and return the real UTC instant.
+ */
+export function fromWallClock(d: Decoded, timeZone: string): Decoded {
+  const wall = Number(floorDiv(d.ticks, TICKS_PER_MS));
+  let utc = wall - offsetMs(wall, timeZone);
+  utc = wall - offsetMs(utc, timeZone);   // second pass settles DST transitions
+  return { ...d, ticks: d.ticks + BigInt(utc - wall) * TICKS_PER_MS };
+}
+
+/** IANA zones the browser knows, UTC first (supportedValuesOf leaves it out). */
+export function timeZones(): string[] {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: string) => string[] };
+  const zones = intl.supportedValuesOf?.("timeZone") ?? ["Europe/London", "Europe/Berlin", "America/New_York", "America/Chicago", "America/Los_Angeles", "Asia/Tokyo", "Australia/Sydney"];
+  return ["UTC", ...zones.filter((z) => z !== "UTC")];
+}
+
+// ---------- Field caveats ----------
+
+const PRECISION_DIGITS: Record<TimestampPrecision, number> = { "100ns": 7, us: 6, ms: 3, s: 0, "2s": 0, day: 0 };
+
+/** Warnings for interpreting a value of `field`, given the encoding picked and what it decoded to (if anything). */
+export function fieldWarnings(field: TimestampField, encoding?: TimestampEncoding, decoded?: Decoded): string[] {
+  const out: string[] = [];
+  if (field.encoding && encoding && field.encoding !== encoding) out.push(`This field is documented as ${ENCODING_LABEL[field.encoding]}, not ${ENCODING_LABEL[encoding]}.`);
+  switch (field.tz_behavior) {
+    case "local":
+      out.push("Documented as local time: the value (or the way tools display it) follows the host's time zone. Confirm the zone from SYSTEM\\CurrentControlSet\\Control\\TimeZoneInformation, mind DST, and use \"Value is local time\" below to get UTC.");
+      break;
+    case "unknown":
+      out.push("Time zone behaviour is not documented for this field; verify against an event with a known UTC time.");
+      break;
+    case "offset":
+      out.push("The value carries its own UTC offset; the UTC line already accounts for it.");
+      break;
+  }
+  switch (field.precision) {
+    case "s":
+      out.push("Recorded to the second: events within the same second cannot be ordered by this field.");
+      break;
+    case "2s":
+      out.push("FAT/DOS resolution: rounded to 2 seconds.");
+      break;
+    case "day":
+      out.push("Only the date is meaningful.");
+      break;
+  }
+  if (field.precision && decoded && decoded.digits > PRECISION_DIGITS[field.precision]) {
+    const sub = decoded.ticks % TICKS_PER_SECOND;
+    if (sub !== 0n) out.push(`The value has sub-second digits, but this field is only reliable to ${PRECISION_LABEL[field.precision]}.`);
+  }
+  return out;
+}
+
+export type WorkbenchState = { artifact?: string; field?: number; encoding?: TimestampEncoding; value?: string };
+
+export function timestampQuery(state: WorkbenchState): string {
+  const params = new URLSearchParams();
+  if (state.artifact) params.set("artifact", state.artifact);
+  if (state.artifact && state.field !== undefined) params.set("field", String(state.field));
+  if (state.encoding) params.set("encoding", state.encoding);
+  if (state.value) params.set("value", state.value);
+  const query = params.toString();
+  return query ? `?${query}` : "";
+}
+
+export function timestampHref(state: WorkbenchState): string { return `/timestamps/${timestampQuery(state)}`; }
@@ -0,0 +1,64 @@
+import { PLATFORMS } from "@/lib/platforms";
+import type { Platform } from "@/lib/schema";
+
+/**
+ * Explorer view state as it appears in the query string, so a filtered view or
+ * an open artifact can be bookmarked, shared and navigated with back/forward.
+ *
+ *   ?q=amcache&fuzzy=1&platforms=windows&platforms=m365&tactics=Execution&tools=KAPE&artifact=windows-amcache&compare=windows-amcache&compare=windows-shimcache
+ *
+ * Lists use repeated keys (tool names may contain commas). `platforms` is omitted
+ * when every platform is selected; a single empty value means none are.
+ */
+export type ExplorerState = {
+  query: string;
+  fuzzy: boolean;  // typo-tolerant search
+  platforms: Platform[];
+  tactics: string[];
+  tools: string[];
+  artifact: string | null; // slug of the open artifact
+  compare: string[];        // slugs picked for the compare view
+};
+
+export const DEFAULT_STATE: ExplorerState = { query: "", fuzzy: false, platforms: PLATFORMS, tactics: [], tools: [], artifact: null, compare: [] };
+
+type ReadableParams = { get(key: string): string | null; getAll(key: string): string[]; has(key: string): boolean };
+
+export function parseExplorerState(params: ReadableParams): ExplorerState {
+  const platforms = params.has("platforms")
+    ? PLATFORMS.filter((p) => params.getAll("platforms").includes(p))
+    : PLATFORMS;
+  return {
+    query: params.get("q") ?? "",
+    fuzzy: params.get("fuzzy") === "1",
+    platforms,
+    tactics: params.getAll("tactics").filter(Boolean),
+    tools: params.getAll("tools").filter(Boolean),
+    artifact: params.get("artifact") || null,
+    compare: params.getAll("compare").filter(Boolean),
+  };
+}
+
+export function serializeExplorerState(state: ExplorerState): string {
+  const params = new URLSearchParams();
+  if (state.query) params.set("q", state.query);
+  if (state.fuzzy) params.set("fuzzy", "1");
+  if (state.platforms.length !== PLATFORMS.length) {
+    if (state.platforms.length === 0) params.set("platforms", "");
+    // Keep registry order so equivalent selections produce identical URLs.
+    PLATFORMS.filter((p) => state.platforms.includes(p)).forEach((p) => params.append("platforms", p));
+  }
+  state.tactics.forEach((t) => params.append("tactics", t));
+  state.tools.forEach((t) => params.append("tools", t));
+  if (state.artifact) params.set("artifact", state.artifact);
+  state.compare.forEach((c) => params.append("compare", c));
+  const qs = params.toString();
+  return qs ? `?${qs}` : "";
+}
+
+/** `?artifact=a&artifact=b` — artifact sets (compare, playbook) live in the URL so they can be shared. */
+export function artifactListQuery(slugs: string[]): string {
+  const params = new URLSearchParams();
+  slugs.forEach((s) => params.append("artifact", s));
+  return `?${params.toString()}`;
+}
@@ -0,0 +1,65 @@
+"use client";
+import { useCallback } from "react";
+import { z } from "zod";
+import { CaseSchema, newCase, type Case, type StepState } from "@/lib/cases";
+import { useStoredState } from "@/lib/useStoredState";
+
+const CASES_KEY = "dfir-explorer:cases";
+const ACTIVE_KEY = "dfir-explorer:active-case";
+
+const CaseListSchema = CaseSchema.array();
+const ActiveIdSchema = z.string().nullable();
+
+function touch(c: Case): Case { return { ...c, updatedAt: new Date().toISOString() }; }
+
+/** Cases persisted in localStorage, plus the case new artifacts are added to by default. */
+export function useCases() {
+  const [cases, setCases, storage] = useStoredState<Case[]>(CASES_KEY, CaseListSchema, []);
+  const [activeId, setActiveId] = useStoredState<string | null>(ACTIVE_KEY, ActiveIdSchema, null);
+
+  const updateCase = useCallback((id: string, update: (c: Case) => Case) => {
+    setCases((prev) => prev.map((c) => (c.id === id ? touch(update(c)) : c)));
+  }, [setCases]);
+
+  const createCase = useCallback((name: string) => {
+    const c = newCase(name);
+    setCases((prev) => [...prev, c]);
+    setActiveId(c.id);
+    return c;
+  }, [setCases, setActiveId]);
+
+  const deleteCase = useCallback((id: string) => {
+    setCases((prev) => prev.filter((c) => c.id !== id));
+    if (activeId === id) setActiveId(null);
+  }, [activeId, setCases, setActiveId]);
+
+  const renameCase = useCallback((id: string, name: string) => updateCase(id, (c) => ({ ...c, name })), [updateCase]);
+
+  const addArtifact = useCallback((id: string, artifactId: string) => updateCase(id, (c) =>
+    c.artifacts.includes(artifactId) ? c : { ...c, artifacts: [...c.artifacts, artifactId] }
+  ), [updateCase]);
+
+  // Progress is kept when an artifact is removed, so re-adding it restores the ticks.
+  const removeArtifact = useCallback((id: string, artifactId: string) => updateCase(id, (c) =>
+    ({ ...c, artifacts: c.artifacts.filter((a) => a !== artifactId) })
+  ), [updateCase]);
+
+  const setStep = useCallback((id: string, artifactId: string, key: string, patch: { done?: boolean; note?: string }) => updateCase(id, (c) => {
+    const now = new Date().toISOString();
+    const prev: StepState = c.progress[artifactId]?.[key] ?? { done: false };
+    const next: StepState = { ...prev };
+    if (patch.done !== undefined) { next.done = patch.done; next.doneAt = patch.done ? now : undefined; }
+    if (patch.note !== undefined) { next.note = patch.note || undefined; next.noteAt = patch.note ? now : undefined; }
+    return { ...c, progress: { ...c.progress, [artifactId]: { ...c.progress[artifactId], [key]: next } } };
+  }), [updateCase]);
+
+  /** Merge imported cases by id; an imported case replaces a local one with the same id. */
+  const importCases = useCallback((incoming: Case[]) => {
+    setCases((prev) => {
+      const ids = new Set(incoming.map((c) => c.id));
+      return [...prev.filter((c) => !ids.has(c.id)), ...incoming];
+    });
+  }, [setCases]);
+
+  return { cases, activeId, setActiveId, createCase, deleteCase, renameCase, addArtifact, removeArtifact, setStep, importCases, storage };
+}
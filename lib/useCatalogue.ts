@@ -0,0 +1,30 @@
+"use client";
+import { useCallback, useMemo } from "react";
+import { SEED } from "@/lib/artifacts";
+import { mergeOverlay, removeLocalArtifact, upsertLocal } from "@/lib/overlay";
+import { ArtifactListSchema, type Artifact } from "@/lib/schema";
+import { useStoredState } from "@/lib/useStoredState";
+
+const LOCAL_KEY = "dfir-explorer:local-artifacts";
+const NO_ARTIFACTS: Artifact[] = [];
+
+export type LocalKind = "local" | "override";
+
+/**
+ * The published catalogue with this browser's local artifacts merged in. Until storage
+ * is read (and during the static render) this is exactly SEED.
+ */
+export function useCatalogue() {
+  const [local, setLocal, storage] = useStoredState<Artifact[]>(LOCAL_KEY, ArtifactListSchema, NO_ARTIFACTS);
+  const artifacts = useMemo(() => mergeOverlay(SEED, local), [local]);
+
+  const localKind = useCallback((id: string): LocalKind | undefined => {
+    if (!local.some((a) => a.id === id)) return undefined;
+    return SEED.some((a) => a.id === id) ? "override" : "local";
+  }, [local]);
+
+  const saveLocal = useCallback((incoming: Artifact[]) => setLocal((prev) => upsertLocal(prev, incoming)), [setLocal]);
+  const removeLocal = useCallback((id: string) => setLocal((prev) => removeLocalArtifact(prev, id)), [setLocal]);
+
+  return { artifacts, local, setLocal, localKind, saveLocal, removeLocal, storage };
+}
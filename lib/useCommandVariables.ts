@@ -0,0 +1,27 @@
+"use client";
+import { useCallback } from "react";
+import { z } from "zod";
+import type { CommandValues } from "@/lib/commands";
+import { useStoredState } from "@/lib/useStoredState";
+
+const VALUES_KEY = "dfir-explorer:command-vars";
+const ValuesSchema = z.record(z.string());
+const NO_VALUES: CommandValues = {};
+
+/** Analyst-set command variables, shared by every command on the page and remembered between visits. */
+export function useCommandVariables() {
+  const [values, setValues] = useStoredState<CommandValues>(VALUES_KEY, ValuesSchema, NO_VALUES);
+
+  const setValue = useCallback((name: string, value: string) => {
+    setValues((prev) => {
+      const next = { ...prev };
+      if (value === "") delete next[name];
+      else next[name] = value;
+      return next;
+    });
+  }, [setValues]);
+
+  const reset = useCallback(() => setValues(NO_VALUES), [setValues]);
+
+  return { values, setValue, reset };
+}
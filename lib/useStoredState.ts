@@ -0,0 +1,80 @@
+"use client";
+import { useCallback, useEffect, useRef, useState, type SetStateAction } from "react";
+import type { z } from "zod";
+
+/** Why stored data is not what the page shows: see StorageNotice. */
+export type StorageProblem =
+  | { kind: "unreadable"; key: string; backupKey: string }
+  | { kind: "unwritable"; key: string; message: string };
+
+/**
+ * useState backed by localStorage and kept in sync across tabs and across
+ * every component on the page that uses the same key. Values are validated
+ * with `schema` on read; anything unreadable shows as `initial`, but the stored
+ * value is copied to `<key>:backup` and only overwritten once the state is changed.
+ * Storage is read after mount, so the first (static) render always sees `initial`.
+ */
+export function useStoredState<T>(key: string, schema: z.ZodType<T>, initial: T) {
+  const [value, setValue] = useState<T>(initial);
+  const [loaded, setLoaded] = useState(false);
+  const [problem, setProblem] = useState<StorageProblem>();
+  const fallback = useRef(initial);
+  // True while the value is what storage holds (or could not be read): nothing to write back.
+  const pristine = useRef(true);
+
+  useEffect(() => {
+    const read = () => {
+      pristine.current = true;
+      let raw: string | null = null;
+      try {
+        raw = localStorage.getItem(key);
+        const parsed = raw === null ? null : schema.safeParse(JSON.parse(raw));
+        if (raw === null || parsed?.success) {
+          setValue(parsed?.success ? parsed.data : fallback.current);
+          setProblem((p) => (p?.kind === "unreadable" ? undefined : p));
+          return;
+        }
+      } catch {
+        // Not JSON, or storage is not available at all; handled below like a schema mismatch.
+      }
+      setValue(fallback.current);
+      if (raw === null) return;
+      const backupKey = `${key}:backup`;
+      try {
+        if (localStorage.getItem(backupKey) !== raw) localStorage.setItem(backupKey, raw);
+      } catch {
+        // The original is still under `key` until the state is changed.
+      }
+      setProblem({ kind: "unreadable", key, backupKey });
+    };
+    read();
+    setLoaded(true);
+    const onStorage = (e: StorageEvent) => { if (e.key === key) read(); };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, [key, schema]);
+
+  const set = useCallback((next: SetStateAction<T>) => {
+    pristine.current = false;
+    setValue(next);
+  }, []);
+
+  // Other tabs get a native "storage" event; other hook instances in this tab get a synthetic one.
+  // Skipping unchanged writes keeps that from echoing back and forth.
+  useEffect(() => {
+    if (!loaded || pristine.current) return;
+    const json = JSON.stringify(value);
+    try {
+      if (localStorage.getItem(key) === json) return;
+      localStorage.setItem(key, json);
+      setProblem((p) => (p?.kind === "unwritable" ? undefined : p));
+    } catch (err) {
+      // Quota exceeded, or storage disabled (private browsing): keep working in memory.
+      setProblem({ kind: "unwritable", key, message: (err as Error).message });
+      return;
+    }
+    window.dispatchEvent(new StorageEvent("storage", { key }));
+  }, [key, value, loaded]);
+
+  return [value, set, problem] as const;
+}
@@ -0,0 +1,2 @@
+export function classNames(...xs: Array<string | false | undefined>) { return xs.filter(Boolean).join(" "); }
+export function uniq<T>(arr: T[]): T[] { return Array.from(new Set(arr)); }
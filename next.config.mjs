@@ -12,7 +12,11 @@ const nextConfig = {
     unoptimized: true
   },
   basePath,
-  assetPrefix: basePath
+  assetPrefix: basePath,
+  // The web manifest and service worker registration build URLs by hand, so they need the prefix too.
+  env: {
+    NEXT_PUBLIC_BASE_PATH: basePath
+  }
 };
 
 export default nextConfig;
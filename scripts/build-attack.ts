@@ -0,0 +1,54 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { ZodError } from "zod";
+import {
+  ArtifactListSchema, AttackMatrixSchema, CommandVariableListSchema, PlatformListSchema, TimelineFieldListSchema,
+  validateArtifacts, validateAttackMatrix,
+} from "../lib/schema";
+import { attackFromStix, ENTERPRISE_ATTACK_URL, formatAttackMatrix, StixBundleSchema } from "../lib/stix";
+
+// Usage: npm run build-attack -- [enterprise-attack.json file or URL] [--out data/attack.json]
+// Without a source the current bundle is downloaded from MITRE's attack-stix-data repository.
+// The seed is then checked against the new matrix, so revoked or renamed techniques show up at once.
+const args = process.argv.slice(2);
+const outIndex = args.indexOf("--out");
+const outFile = path.resolve(outIndex === -1 ? "data/attack.json" : args.splice(outIndex, 2)[1]);
+const source = args[0] ?? ENTERPRISE_ATTACK_URL;
+
+async function load(from: string): Promise<unknown> {
+  if (!/^https?:\/\//.test(from)) return JSON.parse(readFileSync(from, "utf8"));
+  const res = await fetch(from);
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  return res.json();
+}
+
+async function main() {
+  let matrix;
+  try {
+    matrix = attackFromStix(StixBundleSchema.parse(await load(source)));
+  } catch (err) {
+    const issues = err instanceof ZodError ? err.issues.map((i) => `${i.path.join(".")}: ${i.message}`) : [(err as Error).message];
+    issues.forEach((issue) => console.error(`error ${source}: ${issue}`));
+    process.exit(1);
+  }
+  const { errors } = validateAttackMatrix(matrix);
+  errors.forEach((e) => console.error(`error generated ${e.path}: ${e.message}`));
+  if (errors.length > 0) process.exit(1);
+  writeFileSync(outFile, formatAttackMatrix(matrix));
+  const subtechniques = matrix.techniques.filter((t) => t.id.includes(".")).length;
+  console.error(`ATT&CK ${matrix.version}: ${matrix.tactics.length} tactics, ${matrix.techniques.length - subtechniques} techniques, ${subtechniques} sub-techniques written to ${path.relative(process.cwd(), outFile)}`);
+
+  const seed = ArtifactListSchema.parse(JSON.parse(readFileSync("data/seed.json", "utf8")));
+  const report = validateArtifacts(seed, {
+    commandVariables: CommandVariableListSchema.parse(JSON.parse(readFileSync("data/command-variables.json", "utf8"))),
+    attack: AttackMatrixSchema.parse(matrix),
+    platforms: PlatformListSchema.parse(JSON.parse(readFileSync("data/platforms.json", "utf8"))),
+    timelineFields: TimelineFieldListSchema.parse(JSON.parse(readFileSync("data/timeline-fields.json", "utf8"))),
+  });
+  // Only the ATT&CK findings are news here; everything else validate-data already reports.
+  const attackIssues = report.errors.filter((e) => /ATT&CK/.test(e.message));
+  attackIssues.forEach((e) => console.error(`error data/seed.json ${e.path}${e.artifactId ? ` (${e.artifactId})` : ""}: ${e.message}`));
+  if (attackIssues.length > 0) process.exit(1);
+}
+
+main();
@@ -0,0 +1,66 @@
+import { createHash } from "node:crypto";
+import { readdirSync, readFileSync, statSync, writeFileSync } from "node:fs";
+import path from "node:path";
+
+// Runs after `next build` (npm "postbuild"): writes out/sw.js, a service worker that precaches
+// every file of the static export so the installed app works on networks without internet.
+// Usage: npm run build-sw -- [outDir]
+const outDir = path.resolve(process.argv[2] ?? "out");
+const SKIP = new Set(["sw.js", ".nojekyll"]);
+
+function walk(dir: string): string[] {
+  return readdirSync(dir).flatMap((name) => {
+    const full = path.join(dir, name);
+    return statSync(full).isDirectory() ? walk(full) : [full];
+  });
+}
+
+const files = walk(outDir)
+  .map((f) => path.relative(outDir, f).split(path.sep).join("/"))
+  .filter((f) => !SKIP.has(f))
+  .sort();
+
+// The cache name changes with any file, so a new deploy replaces the old copy in one go.
+const hash = createHash("sha256");
+for (const f of files) hash.update(f).update("\0").update(readFileSync(path.join(outDir, f)));
+const version = hash.digest("hex").slice(0, 12);
+
+// Pages are requested as "graph/", not "graph/index.html" (trailingSlash in next.config.mjs).
+const urls = files.map((f) => (f === "index.html" ? "" : f.endsWith("/index.html") ? f.slice(0, -"index.html".length) : f));
+
+const sw = `// Generated by scripts/build-sw.ts; do not edit.
+const CACHE = "dfir-explorer-${version}";
+const SCOPE = self.registration.scope;
+const FILES = ${JSON.stringify(urls)}.map((f) => new URL(f, SCOPE).href);
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(caches.open(CACHE).then((cache) => cache.addAll(FILES)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((k) => k.startsWith("dfir-explorer-") && k !== CACHE).map((k) => caches.delete(k))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+// Pages: network first so a reachable site is never stale, the cached copy when offline.
+// Everything else (hashed JS/CSS, RSC payloads, icons) does not change within a build: cache first.
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET" || !request.url.startsWith(SCOPE)) return;
+  if (request.mode === "navigate") {
+    event.respondWith(
+      fetch(request).catch(async () =>
+        (await caches.match(request, { ignoreSearch: true })) ?? (await caches.match(new URL("404.html", SCOPE).href)) ?? Response.error(),
+      ),
+    );
+    return;
+  }
+  event.respondWith(caches.match(request, { ignoreSearch: true }).then((hit) => hit ?? fetch(request)));
+});
+`;
+
+writeFileSync(path.join(outDir, "sw.js"), sw);
+console.log(`${path.relative(process.cwd(), outDir)}/sw.js: ${urls.length} files precached (cache ${version})`);
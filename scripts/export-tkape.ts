@@ -0,0 +1,21 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import { toTkape } from "../lib/kape";
+import { ArtifactListSchema } from "../lib/schema";
+
+// Usage: npm run export-tkape -- [slug...] [--out DFIRExplorer.tkape]
+// With no slugs every Windows artifact is included.
+const args = process.argv.slice(2);
+const outAt = args.indexOf("--out");
+const outFile = outAt === -1 ? undefined : args.splice(outAt, 2)[1];
+
+const artifacts = ArtifactListSchema.parse(JSON.parse(readFileSync("data/seed.json", "utf8")));
+const unknown = args.filter((slug) => !artifacts.some((a) => a.slug === slug));
+if (unknown.length) {
+  console.error(`error: no artifact with slug ${unknown.join(", ")}`);
+  process.exit(1);
+}
+const selected = args.length ? artifacts.filter((a) => args.includes(a.slug)) : artifacts;
+const text = toTkape(selected, { description: args.length ? `DFIR Artifact Explorer: ${selected.map((a) => a.name).join(", ")}` : "DFIR Artifact Explorer: all documented Windows artifacts" });
+
+if (outFile) writeFileSync(outFile, text);
+else process.stdout.write(text);
@@ -0,0 +1,86 @@
+import { readdirSync, readFileSync, statSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { parse, parseAllDocuments } from "yaml";
+import { ZodError } from "zod";
+import { MkapeSchema, TkapeSchema } from "../lib/kape";
+import { FaDefinitionSchema, fromForensicArtifact, fromMkape, fromTkape, importReport, mergeImports, type ImportedArtifact } from "../lib/importers";
+import { updateSeedFile } from "../lib/seedFormat";
+import {
+  ArtifactListSchema, AttackMatrixSchema, CommandVariableListSchema, PlatformListSchema, TimelineFieldListSchema, formatPath, validateArtifacts,
+  type Artifact,
+} from "../lib/schema";
+
+// Usage: npm run import-artifacts -- <file or directory>... [--seed data/seed.json] [--out merged.json] [--report import.md]
+// Without --out nothing is written except the report; point --out at the seed to accept the merge.
+// Entries the merge leaves alone are written back byte for byte, so the diff shows only the additions.
+const args = process.argv.slice(2);
+function option(name: string): string | undefined {
+  const i = args.indexOf(name);
+  if (i === -1) return undefined;
+  const [, value] = args.splice(i, 2);
+  return value;
+}
+const seedFile = path.resolve(option("--seed") ?? "data/seed.json");
+const outFile = option("--out");
+const reportFile = option("--report");
+if (args.length === 0) {
+  console.error("usage: npm run import-artifacts -- <.yaml|.tkape|.mkape file or directory>... [--seed file] [--out file] [--report file]");
+  process.exit(1);
+}
+
+const EXTENSIONS = [".yaml", ".yml", ".tkape", ".mkape"];
+function collect(p: string): string[] {
+  if (statSync(p).isDirectory()) return readdirSync(p).sort().flatMap((f) => collect(path.join(p, f)));
+  return EXTENSIONS.includes(path.extname(p).toLowerCase()) ? [p] : [];
+}
+
+let failed = 0;
+function read(file: string): ImportedArtifact[] {
+  const text = readFileSync(file, "utf8");
+  const where = path.relative(process.cwd(), file);
+  const ext = path.extname(file).toLowerCase();
+  try {
+    if (ext === ".tkape") return [fromTkape(TkapeSchema.parse(parse(text)), where)];
+    if (ext === ".mkape") return [fromMkape(MkapeSchema.parse(parse(text)), where)];
+    // ForensicArtifacts files hold several definitions separated by "---".
+    return parseAllDocuments(text).flatMap((doc) => {
+      const value = doc.toJS();
+      return value ? [fromForensicArtifact(FaDefinitionSchema.parse(value), where)] : [];
+    });
+  } catch (err) {
+    failed++;
+    // A schema mismatch lists every field that is wrong; anything else (YAML syntax) is one line.
+    if (err instanceof ZodError) err.issues.forEach((issue) => console.error(`error ${where} ${formatPath(issue.path)}: ${issue.message}`));
+    else console.error(`error ${where}: ${(err as Error).message.split("\n")[0]}`);
+    return [];
+  }
+}
+
+const imports = args.flatMap((a) => collect(path.resolve(a))).flatMap(read);
+const seedText = readFileSync(seedFile, "utf8");
+// Checked against the schema, but merged as written: parsing would reorder and drop keys.
+const existing = JSON.parse(seedText) as Artifact[];
+ArtifactListSchema.parse(existing);
+const { artifacts, changes } = mergeImports(existing, imports);
+
+const report = importReport(changes);
+if (reportFile) writeFileSync(reportFile, report);
+else console.log(report);
+
+// The merged list must pass the same checks as the seed before it is written anywhere.
+const context = {
+  commandVariables: CommandVariableListSchema.parse(JSON.parse(readFileSync("data/command-variables.json", "utf8"))),
+  attack: AttackMatrixSchema.parse(JSON.parse(readFileSync("data/attack.json", "utf8"))),
+  platforms: PlatformListSchema.parse(JSON.parse(readFileSync("data/platforms.json", "utf8"))),
+  timelineFields: TimelineFieldListSchema.parse(JSON.parse(readFileSync("data/timeline-fields.json", "utf8"))),
+};
+const { errors } = validateArtifacts(artifacts, context);
+errors.forEach((e) => console.error(`error merged ${e.path}${e.artifactId ? ` (${e.artifactId})` : ""}: ${e.message}`));
+if (errors.length > 0 || failed > 0) {
+  console.error(`\n${imports.length} definition(s) read, ${failed} file(s) failed, ${errors.length} error(s) in the merged list; nothing written`);
+  process.exit(1);
+}
+if (outFile) {
+  writeFileSync(outFile, updateSeedFile(seedText, existing, artifacts));
+  console.error(`${artifacts.length} artifacts written to ${outFile}`);
+}
@@ -0,0 +1,80 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import {
+  ColumnMappingFileSchema, columnMappings, parseCsv, pickMapping, timelineEvents, toCsv, TIMELINE_FIELDS,
+  type ColumnMapping, type TimelineEvent,
+} from "../lib/crosswalk";
+import { ArtifactListSchema } from "../lib/schema";
+
+// Usage: npm run merge-timeline -- file.csv... [--mappings column-mappings.json] [--out timeline.csv]
+// Each CSV is matched to the column mapping that names most of its header; without --mappings the
+// mappings come from the output_fields in data/seed.json. The whole timeline is held in memory.
+const args = process.argv.slice(2);
+function option(name: string): string | undefined {
+  const at = args.indexOf(name);
+  return at === -1 ? undefined : args.splice(at, 2)[1];
+}
+const mappingsFile = option("--mappings");
+const outFile = option("--out");
+if (args.length === 0) {
+  console.error("usage: npm run merge-timeline -- file.csv... [--mappings column-mappings.json] [--out timeline.csv]");
+  process.exit(1);
+}
+
+function readJson(file: string): unknown {
+  try {
+    return JSON.parse(readFileSync(file, "utf8"));
+  } catch (err) {
+    console.error(`error ${file}: ${(err as Error).message}`);
+    process.exit(1);
+  }
+}
+
+function readMappings(): ColumnMapping[] {
+  if (!mappingsFile) return columnMappings(ArtifactListSchema.parse(readJson("data/seed.json")));
+  const parsed = ColumnMappingFileSchema.safeParse(readJson(mappingsFile));
+  if (!parsed.success) {
+    console.error(`error ${mappingsFile}: not a column mapping file (${parsed.error.issues[0].message})`);
+    process.exit(1);
+  }
+  return Array.isArray(parsed.data) ? parsed.data : [parsed.data];
+}
+
+const mappings = readMappings();
+const events: Array<TimelineEvent & { source_file: string }> = [];
+let failed = false;
+for (const file of args) {
+  let csv;
+  try {
+    csv = readFileSync(file, "utf8");
+  } catch (err) {
+    console.error(`error ${file}: ${(err as Error).message}`);
+    failed = true;
+    continue;
+  }
+  const [header = [], ...rows] = parseCsv(csv);
+  const mapping = pickMapping(header, mappings);
+  if (!mapping) {
+    console.error(`error ${file}: no column mapping matches its header`);
+    failed = true;
+    continue;
+  }
+  const records = rows.filter((r) => r.some(Boolean)).map((r) => Object.fromEntries(header.map((h, i) => [h, r[i] ?? ""])));
+  const found = timelineEvents(mapping, records);
+  const unmapped = header.filter((h) => !(h in mapping.columns)).length;
+  console.error(`${file}: ${mapping.name} via ${mapping.tool}, ${records.length} rows, ${found.length} events${unmapped ? `, ${unmapped} unmapped columns` : ""}`);
+  events.push(...found.map((e) => ({ ...e, source_file: path.basename(file) })));
+}
+
+events.sort((a, b) => (a.datetime < b.datetime ? -1 : a.datetime > b.datetime ? 1 : 0));
+const fields = TIMELINE_FIELDS.map((f) => f.id).filter((id) => events.some((e) => e.fields[id]));
+const text = toCsv([
+  ["datetime", "timestamp_desc", "message", "artifact", "tool", "source_file", ...fields],
+  ...events.map((e) => [e.datetime, e.timestamp_desc, e.message, e.artifact, e.tool, e.source_file, ...fields.map((f) => e.fields[f] ?? "")]),
+]);
+
+if (outFile) {
+  writeFileSync(outFile, text);
+  console.error(`${outFile}: ${events.length} events from ${args.length} file${args.length !== 1 ? "s" : ""}`);
+} else process.stdout.write(text);
+if (failed) process.exit(1);
@@ -0,0 +1,69 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import {
+  AttackMatrixSchema, CommandVariableListSchema, PlatformListSchema, TimelineFieldListSchema,
+  validateArtifacts, validateAttackMatrix, validateCommandVariables, validatePlatforms, validateTimelineFields,
+  type DataIssue, type DataReport,
+} from "../lib/schema";
+
+const file = path.resolve(process.argv[2] ?? "data/seed.json");
+// Reference data the artifacts point into; always the checked-in copies.
+const variablesFile = path.resolve("data/command-variables.json");
+const attackFile = path.resolve("data/attack.json");
+const platformsFile = path.resolve("data/platforms.json");
+const timelineFieldsFile = path.resolve("data/timeline-fields.json");
+
+function format(level: string, where: string, issue: DataIssue): string {
+  const at = issue.artifactId ? `${issue.path} (${issue.artifactId})` : issue.path;
+  return `${level} ${where} ${at}: ${issue.message}`;
+}
+
+function readJson(f: string): unknown {
+  try {
+    return JSON.parse(readFileSync(f, "utf8"));
+  } catch (err) {
+    console.error(`error ${f}: ${(err as Error).message}`);
+    process.exit(1);
+  }
+}
+
+function report(f: string, { errors, warnings }: DataReport) {
+  const where = path.relative(process.cwd(), f);
+  warnings.forEach((w) => console.warn(format("warning", where, w)));
+  errors.forEach((e) => console.error(format("error", where, e)));
+}
+
+// Artifacts are checked against the reference files, so validate those first.
+const variables = readJson(variablesFile);
+const variablesReport = validateCommandVariables(variables);
+report(variablesFile, variablesReport);
+const commandVariables = variablesReport.errors.length === 0 ? CommandVariableListSchema.parse(variables) : undefined;
+
+const attackData = readJson(attackFile);
+const attackReport = validateAttackMatrix(attackData);
+report(attackFile, attackReport);
+const attack = attackReport.errors.length === 0 ? AttackMatrixSchema.parse(attackData) : undefined;
+
+const platformsData = readJson(platformsFile);
+const platformsReport = validatePlatforms(platformsData);
+report(platformsFile, platformsReport);
+const platforms = platformsReport.errors.length === 0 ? PlatformListSchema.parse(platformsData) : undefined;
+
+const timelineFieldsData = readJson(timelineFieldsFile);
+const timelineFieldsReport = validateTimelineFields(timelineFieldsData);
+report(timelineFieldsFile, timelineFieldsReport);
+const timelineFields = timelineFieldsReport.errors.length === 0 ? TimelineFieldListSchema.parse(timelineFieldsData) : undefined;
+
+const data = readJson(file);
+const artifactsReport = validateArtifacts(data, { commandVariables, attack, platforms, timelineFields });
+report(file, artifactsReport);
+
+const reports = [variablesReport, attackReport, platformsReport, timelineFieldsReport, artifactsReport];
+const errors = reports.reduce((n, r) => n + r.errors.length, 0);
+const warnings = reports.reduce((n, r) => n + r.warnings.length, 0);
+const count = Array.isArray(data) ? data.length : 0;
+if (errors > 0) {
+  console.error(`\n${errors} error(s), ${warnings} warning(s) in ${count} artifacts and their reference data`);
+  process.exit(1);
+}
+console.log(`${path.relative(process.cwd(), file)}: ${count} artifacts OK${warnings ? `, ${warnings} warning(s)` : ""}`);
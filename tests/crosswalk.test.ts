@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { parseCsv, toCsv, toIsoTimestamp } from "../lib/crosswalk";
+
+test("parseCsv handles quotes, embedded line breaks, CRLF and a BOM", () => {
+  assert.deepEqual(parseCsv('\ufeffa,b,c\r\n"x, y","say ""hi""","two\nlines"\r\n'), [
+    ["a", "b", "c"],
+    ["x, y", 'say "hi"', "two\nlines"],
+  ]);
+});
+
+test("parseCsv keeps empty cells and a last line without a newline", () => {
+  assert.deepEqual(parseCsv("a,,c\n,\nlast"), [["a", "", "c"], ["", ""], ["last"]]);
+});
+
+test("toCsv round-trips through parseCsv", () => {
+  const rows = [["datetime", "message"], ["2024-01-01T00:00:00.000000Z", 'C:\\a "b", c']];
+  assert.deepEqual(parseCsv(toCsv(rows)), rows);
+});
+
+// [CSV value, ISO 8601 UTC or undefined]
+const TIMESTAMPS: Array<[string, string | undefined]> = [
+  ["2024-01-01 10:00:00", "2024-01-01T10:00:00.000000Z"],
+  ["2024-01-01 10:00:00.5", "2024-01-01T10:00:00.500000Z"],
+  ["2024-01-01 10:00:00.1234567", "2024-01-01T10:00:00.123456Z"],
+  ["2024-01-01T10:00:00Z", "2024-01-01T10:00:00.000000Z"],
+  ["2024-01-01T10:00:00.5+02:00", "2024-01-01T08:00:00.500000Z"],
+  ["2024-01-01 00:30:00 +0100", "2023-12-31T23:30:00.000000Z"],
+  ["2024-02-29 10:00:00", "2024-02-29T10:00:00.000000Z"],
+  ["2024-02-30 10:00:00", undefined],
+  ["2024-13-45 10:00:00", undefined],
+  ["2024-01-01 24:00:00", undefined],
+  ["2024-01-01 10:00:00+99:99", undefined],
+  ["0001-01-01 00:00:00", undefined],
+  ["1601-01-01 00:00:00.0000000", undefined],
+  ["", undefined],
+  ["yesterday", undefined],
+];
+
+for (const [value, expected] of TIMESTAMPS) {
+  test(`toIsoTimestamp ${JSON.stringify(value)}`, () => assert.equal(toIsoTimestamp(value), expected));
+}
+
+test("timestamps sort chronologically as text", () => {
+  const sorted = ["2024-01-01 10:00:00.5", "2024-01-01 10:00:00", "2024-01-01 10:00:00.25"].map((v) => toIsoTimestamp(v)!).sort();
+  assert.deepEqual(sorted, ["2024-01-01T10:00:00.000000Z", "2024-01-01T10:00:00.250000Z", "2024-01-01T10:00:00.500000Z"]);
+});
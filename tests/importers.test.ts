@@ -0,0 +1,137 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { test } from "node:test";
+import { SEED } from "../lib/artifacts";
+import { covers, fromForensicArtifact, fromMkape, fromTkape, importReport, mergeImports } from "../lib/importers";
+import { MkapeSchema, TkapeSchema } from "../lib/kape";
+import type { Artifact } from "../lib/schema";
+import { updateSeedFile } from "../lib/seedFormat";
+
+const lnkTarget = fromTkape(TkapeSchema.parse({
+  Description: "LNK Files and jump lists",
+  Targets: [{ Name: "LNK Files from Recent", Path: "C:\\Users\\%user%\\AppData\\Roaming\\Microsoft\\Windows\\Recent\\", Recursive: true }],
+}), "LNKFilesAndJumpLists.tkape");
+
+test("a recursive directory covers everything below it", () => {
+  const recent = "%APPDATA%\\Microsoft\\Windows\\Recent\\";
+  assert.ok(covers(recent, "%APPDATA%\\Microsoft\\Windows\\Recent\\*.lnk"));
+  assert.ok(covers(recent, "%APPDATA%\\Microsoft\\Windows\\Recent\\AutomaticDestinations\\*.automaticDestinations-ms"));
+  assert.ok(!covers(recent, "%APPDATA%\\Microsoft\\Windows\\Start Menu\\*.lnk"));
+});
+
+test("a file mask covers the files of its directory it matches", () => {
+  assert.ok(covers("C:\\Windows\\Prefetch\\*", "C:\\Windows\\Prefetch\\*.pf"));
+  assert.ok(covers("C:\\Windows\\Prefetch\\*.pf", "C:\\Windows\\Prefetch\\CMD.EXE-1234.pf"));
+  assert.ok(!covers("C:\\Windows\\Prefetch\\*.pf", "C:\\Windows\\Prefetch\\Layout.ini"));
+  assert.ok(!covers("C:\\Windows\\Prefetch\\*", "C:\\Windows\\Prefetch\\Sub\\x.pf"));
+});
+
+test("a KAPE target matched by path only adds the locations it is missing", () => {
+  const amcache = fromTkape(TkapeSchema.parse({
+    Description: "Amcache.hve",
+    Targets: [
+      { Name: "Amcache", Path: "C:\\Windows\\AppCompat\\Programs\\", FileMask: "Amcache.hve" },
+      { Name: "Amcache transaction files", Path: "C:\\Windows\\AppCompat\\Programs\\", FileMask: "Amcache.hve.LOG*" },
+      { Name: "Registry", Path: "RegistryHives.tkape" },
+    ],
+  }), "Amcache.tkape");
+  assert.deepEqual(amcache.skipped, ["compound target RegistryHives.tkape"]);
+
+  const { artifacts, changes } = mergeImports(SEED, [amcache]);
+  assert.equal(changes[0].kind, "updated");
+  if (changes[0].kind !== "updated") return;
+  assert.equal(changes[0].artifact.id, "w-amcache");
+  assert.deepEqual(changes[0].locations.map((l) => l.path), ["C:\\Windows\\AppCompat\\Programs\\Amcache.hve.LOG*"]);
+  assert.equal(artifacts.length, SEED.length);
+  assert.equal(SEED.find((a) => a.id === "w-amcache")!.locations!.length, 1);
+  assert.match(importReport(changes), /Amcache\.hve\.LOG\*/);
+});
+
+test("a numeric KAPE target Id is read as a string", () => {
+  const target = TkapeSchema.parse({ Description: "Prefetch", Id: 12345, Targets: [{ Name: "Prefetch", Path: "C:\\Windows\\Prefetch\\" }] });
+  assert.equal(target.Id, "12345");
+});
+
+test("a KAPE target overlapping several artifacts is a partial match", () => {
+  const { artifacts, changes } = mergeImports(SEED, [lnkTarget]);
+  assert.equal(changes.length, 1);
+  const change = changes[0];
+  assert.equal(change.kind, "partial");
+  if (change.kind !== "partial") return;
+  assert.deepEqual(change.candidates.map((a) => a.id).sort(), ["w-jumplists", "w-lnk"]);
+  assert.equal(change.uncovered.length, 0);
+  assert.deepEqual(artifacts, SEED);
+  assert.match(importReport(changes), /## Partial matches/);
+});
+
+test("a KAPE target a location already covers adds nothing", () => {
+  const prefetch = fromTkape(TkapeSchema.parse({ Description: "Prefetch", Targets: [{ Name: "Prefetch", Path: "C:\\Windows\\Prefetch\\", FileMask: "*.pf" }] }), "Prefetch.tkape");
+  const { changes } = mergeImports(SEED, [prefetch]);
+  assert.equal(changes[0].kind, "unchanged");
+  if (changes[0].kind === "unchanged") assert.equal(changes[0].artifact.id, "w-prefetch");
+});
+
+test("a KAPE module is matched by the path it reads", () => {
+  const amcache = fromMkape(MkapeSchema.parse({
+    Description: "AmcacheParser: extract program execution from Amcache.hve",
+    Processors: [{ Executable: "AmcacheParser.exe", CommandLine: "-f %sourceDirectory%\\Windows\\AppCompat\\Programs\\Amcache.hve -i --csv %destinationDirectory%" }],
+  }), "AmcacheParser.mkape");
+  assert.equal(amcache.parsers[0].command_example, 'AmcacheParser.exe -f "{source}\\Windows\\AppCompat\\Programs\\Amcache.hve" -i --csv "{output_dir}"');
+  const { changes } = mergeImports(SEED, [amcache]);
+  assert.ok(changes[0].kind === "unchanged" || changes[0].kind === "updated");
+  if (changes[0].kind === "unchanged" || changes[0].kind === "updated") assert.equal(changes[0].artifact.id, "w-amcache");
+});
+
+test("a ForensicArtifacts definition nothing matches becomes a new entry", () => {
+  const imp = fromForensicArtifact({
+    name: "WindowsRecentFileCacheBcf",
+    doc: "Windows RecentFileCache.bcf file.",
+    sources: [{ type: "FILE", attributes: { paths: ["%%environ_systemroot%%\\AppCompat\\Programs\\RecentFileCache.bcf"] } }],
+    supported_os: ["Windows"],
+    urls: ["https://example.org/rfc"],
+  }, "windows.yaml");
+  assert.deepEqual(imp.locations, [{ path: "C:\\Windows\\AppCompat\\Programs\\RecentFileCache.bcf", scope: "system" }]);
+
+  const { changes } = mergeImports(SEED, [imp]);
+  assert.equal(changes[0].kind, "added");
+  if (changes[0].kind !== "added") return;
+  assert.equal(changes[0].artifact.slug, "windows-recent-file-cache-bcf");
+  assert.equal(changes[0].artifact.id, "fa-recent-file-cache-bcf");
+  assert.deepEqual(changes[0].artifact.references, [{ title: "WindowsRecentFileCacheBcf (example.org)", url: "https://example.org/rfc" }]);
+});
+
+test("a ForensicArtifacts doc splits into a one-sentence summary and a description", () => {
+  const imp = fromForensicArtifact({
+    name: "WindowsRecentFileCacheBcf",
+    doc: "Windows RecentFileCache.bcf file. It stores the paths of recently\nexecuted programs on Windows 7.\n\nSee also Amcache.\n",
+    sources: [{ type: "FILE", attributes: { paths: ["%%environ_systemroot%%\\AppCompat\\Programs\\RecentFileCache.bcf"] } }],
+    supported_os: ["Windows"],
+  }, "windows.yaml");
+  assert.equal(imp.summary, "Windows RecentFileCache.bcf file.");
+  assert.equal(imp.description, "It stores the paths of recently executed programs on Windows 7. See also Amcache.");
+  assert.deepEqual(imp.locations, [{ path: "C:\\Windows\\AppCompat\\Programs\\RecentFileCache.bcf", scope: "system" }]);
+
+  const { changes } = mergeImports(SEED, [imp]);
+  assert.equal(changes[0].kind, "added");
+  if (changes[0].kind === "added") assert.equal(changes[0].artifact.description, imp.description);
+});
+
+test("ForensicArtifacts paths with unknown variables are skipped", () => {
+  const imp = fromForensicArtifact({
+    name: "Unmapped", doc: "Unmapped.", supported_os: ["Windows"],
+    sources: [{ type: "FILE", attributes: { paths: ["%%users.unknown%%\\x.db"] } }],
+  }, "windows.yaml");
+  assert.deepEqual(imp.locations, []);
+  assert.equal(imp.skipped.length, 1);
+});
+
+test("writing a merge back keeps untouched seed entries byte for byte", () => {
+  const text = readFileSync("data/seed.json", "utf8");
+  const before = JSON.parse(text) as Artifact[];
+  const added: Artifact = { id: "fa-test", name: "Test", slug: "windows-test", platform: "windows", summary: "Test.", locations: [{ path: "C:\\Test\\*", scope: "system" }] };
+  const changed = { ...before[0], references: [...(before[0].references ?? []), { title: "Example", url: "https://example.org/" }] };
+  const out = updateSeedFile(text, before, [changed, ...before.slice(1), added]);
+  assert.deepEqual(JSON.parse(out), [changed, ...before.slice(1), added]);
+  const rest = text.slice(text.indexOf(`"id": ${JSON.stringify(before[1].id)}`), text.lastIndexOf("}") + 1);
+  assert.ok(out.includes(rest));
+});
@@ -0,0 +1,37 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { SEED } from "../lib/artifacts";
+import commandVariables from "../data/command-variables.json";
+import { CommandVariableListSchema, validateArtifacts } from "../lib/schema";
+
+test("one malformed entry does not hide the cross-checks on the others", () => {
+  const broken = { ...SEED[0], summary: 42 };
+  const related = { ...SEED[1], relations: [{ target: "no-such-artifact", type: "corroborates" }] };
+  const { errors } = validateArtifacts([broken, related, ...SEED.slice(2)]);
+  assert.deepEqual(errors.map((e) => [e.path, e.artifactId]), [
+    ["$[0].summary", SEED[0].id],
+    ["$[1].relations[0].target", SEED[1].id],
+  ]);
+});
+
+test("a relation to an entry that failed to parse is not reported as unknown", () => {
+  const broken = { ...SEED[0], summary: 42 };
+  const related = { ...SEED[1], relations: [{ target: SEED[0].id, type: "corroborates" }] };
+  const { errors } = validateArtifacts([broken, related, ...SEED.slice(2)]);
+  assert.deepEqual(errors.map((e) => e.path), ["$[0].summary"]);
+});
+
+test("path placeholders outside quotes are reported", () => {
+  const parsers = [
+    { tool_name: "KAPE", command_example: "kape.exe --tsource {source} --tdest \"{output_dir}\\kape\" --tflush {case_id}" },
+    { tool_name: "find", command_example: "find '{mount_root}/etc' -name \"*.conf\"" },
+  ];
+  const { errors } = validateArtifacts([{ ...SEED[0], parsers }, ...SEED.slice(1)], { commandVariables: CommandVariableListSchema.parse(commandVariables) });
+  assert.deepEqual(errors.map((e) => [e.path, e.message]), [["$[0].parsers[0].command_example", 'Path placeholder {source} is not quoted; write "{source}" so a path with spaces stays one argument']]);
+});
+
+test("links and references only take http and https URLs", () => {
+  const entry = { ...SEED[0], references: [{ title: "x", url: "javascript:alert(1)" }], parsers: [{ tool_name: "x", links: ["data:text/html,<b>x</b>", "https://example.org/"] }] };
+  const { errors } = validateArtifacts([entry, ...SEED.slice(1)]);
+  assert.deepEqual(errors.map((e) => e.path), ["$[0].parsers[0].links[0]", "$[0].references[0].url"]);
+});
@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { SEED } from "../lib/artifacts";
+import { buildSearchIndex, parseQuery, searchArtifacts } from "../lib/search";
+
+test("plain terms are tokenized", () => {
+  assert.deepEqual(parseQuery("Amcache hive"), [
+    { kind: "term", value: "amcache", negate: false },
+    { kind: "term", value: "hive", negate: false },
+  ]);
+});
+
+test("qualifiers, negation and quoted values", () => {
+  assert.deepEqual(parseQuery('amcache platform:Windows -tool:KAPE tactic:"defense evasion"'), [
+    { kind: "term", value: "amcache", negate: false },
+    { kind: "qualifier", field: "platform", value: "windows", negate: false },
+    { kind: "qualifier", field: "tool", value: "kape", negate: true },
+    { kind: "qualifier", field: "tactic", value: "defense evasion", negate: false },
+  ]);
+});
+
+test("an unclosed quote runs to the end of the input", () => {
+  assert.deepEqual(parseQuery('tactic:"lateral movement'), [{ kind: "qualifier", field: "tactic", value: "lateral movement", negate: false }]);
+});
+
+test("unknown qualifiers fall back to terms", () => {
+  assert.deepEqual(parseQuery("foo:bar").map((c) => c.kind), ["term", "term"]);
+});
+
+test("empty values are dropped", () => {
+  assert.deepEqual(parseQuery('platform:"" -'), []);
+});
+
+test("eventid matches a documented ID exactly", () => {
+  const hits = searchArtifacts(buildSearchIndex(SEED), SEED, "eventid:4698");
+  assert.ok(hits.some((h) => h.artifact.id === "w-evtx"));
+  assert.ok(hits.every((h) => h.artifact.event_ids?.some((g) => g.ids.includes("4698"))));
+  assert.deepEqual(searchArtifacts(buildSearchIndex(SEED), SEED, "eventid:469"), []);
+});
+
+test("eventid takes lists and ranges", () => {
+  const hits = searchArtifacts(buildSearchIndex(SEED), SEED, "eventid:4697-4699");
+  assert.ok(hits.some((h) => h.artifact.id === "w-schtasks"));
+  assert.ok(hits.every((h) => h.artifact.event_ids?.some((g) => g.ids.some((id) => ["4697", "4698", "4699"].includes(id)))));
+});
+
+test("negated qualifiers exclude", () => {
+  const hits = searchArtifacts(buildSearchIndex(SEED), SEED, "-platform:windows");
+  assert.ok(hits.length > 0);
+  assert.ok(hits.every((h) => h.artifact.platform !== "windows"));
+});
@@ -0,0 +1,43 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { test } from "node:test";
+import { AttackMatrixSchema, validateAttackMatrix } from "../lib/schema";
+import { attackFromStix, formatAttackMatrix, StixBundleSchema } from "../lib/stix";
+
+const ref = (id: string) => [{ source_name: "mitre-attack", external_id: id }];
+const phases = (...names: string[]) => names.map((phase_name) => ({ kill_chain_name: "mitre-attack", phase_name }));
+
+const bundle = StixBundleSchema.parse({
+  type: "bundle",
+  id: "bundle--1",
+  objects: [
+    { type: "x-mitre-collection", id: "x-mitre-collection--1", name: "Enterprise ATT&CK", x_mitre_version: "15.1" },
+    { type: "x-mitre-matrix", id: "x-mitre-matrix--1", name: "Enterprise ATT&CK", x_mitre_version: "1.0", tactic_refs: ["x-mitre-tactic--2", "x-mitre-tactic--3"] },
+    { type: "x-mitre-tactic", id: "x-mitre-tactic--3", name: "Persistence", x_mitre_shortname: "persistence", external_references: ref("TA0003") },
+    { type: "x-mitre-tactic", id: "x-mitre-tactic--2", name: "Execution", x_mitre_shortname: "execution", external_references: ref("TA0002") },
+    { type: "attack-pattern", id: "attack-pattern--2", name: "Scheduled Task", x_mitre_is_subtechnique: true, kill_chain_phases: phases("execution"), external_references: ref("T1053.005") },
+    { type: "attack-pattern", id: "attack-pattern--1", name: "Scheduled Task/Job", kill_chain_phases: phases("persistence", "execution"), external_references: ref("T1053") },
+    { type: "attack-pattern", id: "attack-pattern--3", name: "Cloud Accounts", x_mitre_is_subtechnique: true, revoked: true, external_references: ref("T1078.004") },
+    { type: "attack-pattern", id: "attack-pattern--4", name: "Old Technique", x_mitre_deprecated: true, kill_chain_phases: phases("execution"), external_references: ref("T1064") },
+  ],
+});
+
+test("a STIX bundle becomes the matrix in column order without revoked or deprecated techniques", () => {
+  const matrix = attackFromStix(bundle);
+  assert.equal(matrix.version, "15.1");
+  assert.deepEqual(matrix.tactics, [{ id: "TA0002", name: "Execution" }, { id: "TA0003", name: "Persistence" }]);
+  assert.deepEqual(matrix.techniques, [
+    { id: "T1053", name: "Scheduled Task/Job", tactics: ["TA0002", "TA0003"] },
+    { id: "T1053.005", name: "Scheduled Task" },
+  ]);
+  assert.deepEqual(validateAttackMatrix(matrix), { errors: [], warnings: [] });
+});
+
+test("a bundle without the ATT&CK release version is rejected", () => {
+  assert.throws(() => attackFromStix({ ...bundle, objects: bundle.objects.filter((o) => o.type !== "x-mitre-collection") }), /version/);
+});
+
+test("data/attack.json is laid out the way build-attack writes it", () => {
+  const text = readFileSync("data/attack.json", "utf8");
+  assert.equal(formatAttackMatrix(AttackMatrixSchema.parse(JSON.parse(text))), text);
+});
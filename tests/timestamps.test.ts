@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { SEED } from "../lib/artifacts";
+import type { TimestampEncoding } from "../lib/schema";
+import { decodeTimestamp, formatUtc } from "../lib/timestamps";
+
+// [encoding, raw value, UTC as formatUtc shows it, or an error fragment for values that must be rejected]
+const KNOWN: Array<[TimestampEncoding, string, string]> = [
+  ["filetime", "116444736000000000", "1970-01-01 00:00:00.0000000 UTC"],
+  ["filetime", "133000000000000000", "2022-06-18 04:26:40.0000000 UTC"],
+  ["filetime", "0x019DB1DED53E8000", "1970-01-01 00:00:00.0000000 UTC"],
+  ["filetime", "00 80 3e d5 de b1 9d 01", "1970-01-01 00:00:00.0000000 UTC"],
+  ["filetime", "0", "1601-01-01 00:00:00.0000000 UTC"],
+  ["filetime", "-1", "error: Expected"],
+  ["filetime", "not a number", "error: Expected"],
+  ["webkit", "13000000000000000", "2012-12-14 23:06:40.000000 UTC"],
+  ["webkit", "11644473600000000", "1970-01-01 00:00:00.000000 UTC"],
+  ["webkit", "1.5", "error: Expected"],
+  ["hfs_plus", "3600000000", "2018-01-28 16:00:00 UTC"],
+  ["hfs_plus", "0", "1904-01-01 00:00:00 UTC"],
+  ["hfs_plus", "0xD693A400", "2018-01-28 16:00:00 UTC"],
+  ["unix_s", "1655526400", "2022-06-18 04:26:40 UTC"],
+  ["unix_s", "-1.25", "1969-12-31 23:59:58.75 UTC"],
+  ["unix_s", "-0.5", "1969-12-31 23:59:59.5 UTC"],
+  ["unix_ms", "-5", "1969-12-31 23:59:59.995 UTC"],
+  ["unix_ms", "1.5", "error: whole number"],
+  ["unix_us", "-0", "1970-01-01 00:00:00.000000 UTC"],
+  ["systemtime", "e8070300050001000c0022003800e703", "2024-03-01 12:34:56.999 UTC"],
+  ["systemtime", "e8070200050001001e00000000000000", "error: out of range"],
+  ["systemtime", "e807020005001e000000000000000000", "error: out of range"],
+  ["iso8601", "2024-02-29T10:00:00Z", "2024-02-29 10:00:00 UTC"],
+  ["iso8601", "2024-01-01T10:00:00.1234567+02:00", "2024-01-01 08:00:00.1234567 UTC"],
+  ["iso8601", "2024-01-01 10:00 -0530", "2024-01-01 15:30:00 UTC"],
+  ["iso8601", "0050-01-01", "0050-01-01 00:00:00 UTC"],
+  ["iso8601", "2024-13-45", "error: out of range"],
+  ["iso8601", "2023-02-29", "error: out of range"],
+  ["iso8601", "2024-04-31T00:00:00Z", "error: out of range"],
+  ["iso8601", "2024-01-01T25:00:00Z", "error: out of range"],
+  ["iso8601", "2024-01-01T10:60:00Z", "error: out of range"],
+  ["iso8601", "2024-01-01T10:00:00+99:99", "error: out of range"],
+  ["iso8601", "yesterday", "error: Not an ISO 8601"],
+];
+
+for (const [encoding, raw, expected] of KNOWN) {
+  test(`${encoding} ${raw}`, () => {
+    const result = decodeTimestamp(raw, encoding);
+    if (expected.startsWith("error: ")) {
+      assert.equal(result.ok, false);
+      if (!result.ok) assert.match(result.error, new RegExp(expected.slice(7), "i"));
+    } else {
+      assert.ok(result.ok, result.ok ? "" : result.error);
+      assert.equal(formatUtc(result.value), expected);
+    }
+  });
+}
+
+test("empty input asks for a value", () => {
+  assert.deepEqual(decodeTimestamp("  ", "filetime"), { ok: false, error: "Enter a value" });
+});
+
+// FILETIME, WebKit and Unix values count from a UTC epoch; "local" there is a tool display caveat, which belongs in `notes`.
+test("seed fields with a UTC-epoch encoding are not documented as local time", () => {
+  const local = SEED.flatMap((a) => (a.timestamps ?? []).filter((t) => t.tz_behavior === "local" && ["filetime", "webkit", "unix_s", "unix_ms", "unix_us"].includes(t.encoding ?? "")).map((t) => `${a.id}: ${t.name}`));
+  assert.deepEqual(local, []);
+});